@@ -1,54 +1,213 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { PiGenerator } from './lib/piGenerator'
+import { PiDigitStream } from './lib/piDigitStream'
+import { createDigitSource, DIGIT_SOURCE_LABELS, type DigitSourceConfig, type DigitSourceKind } from './lib/digitSources'
+import {
+  RADIX_MAPPINGS,
+  SUPPORTED_RADIXES,
+  describeRole,
+  digitRole,
+  isPitchedDigit,
+  loadRadixRoles,
+  radixSymbols,
+  saveRadixRoles,
+  type RadixRoles,
+  type SupportedRadix,
+} from './lib/radixMapping'
 import { AudioEngine } from './lib/audioEngine'
+import { DigitSequencer } from './lib/sequencer'
+import { DEFAULT_RHYTHM, GRID_OPTIONS, TIME_SIGNATURES, digitsPerMinute, gridSwings, type DigitGrid, type RhythmSettings } from './lib/rhythm'
+import { renderDigitsOffline } from './lib/offlineRender'
+import { encodeWav, type WavBitDepth } from './lib/wavEncoder'
+import { exportDigitsToMidi } from './lib/midiExport'
+import { downloadBlob } from './lib/utils'
+import { SCALES, describeKeyCenter, type KeyCenter, type ScaleType } from './lib/musicTheory'
+import {
+  DEFAULT_HARMONIC_JOURNEY,
+  JOURNEY_MOVE_LABELS,
+  type HarmonicJourneySettings,
+  type JourneyMove,
+} from './lib/harmonicJourney'
+import { DEFAULT_VOICE_LEADING, VOICING_LABELS, type VoiceLeadingSettings, type VoicingStyle } from './lib/voiceLeading'
+import {
+  DEFAULT_MODIFIERS,
+  MODIFIER_EFFECT_LABELS,
+  MODIFIER_TRIGGER_LABELS,
+  type ModifierEffect,
+  type ModifierSettings,
+  type ModifierTrigger,
+} from './lib/modifiers'
+import {
+  DEFAULT_PATTERN_DETECTION,
+  PATTERN_EVENT_LABELS,
+  PATTERN_KIND_LABELS,
+  type PatternDetectionSettings,
+  type PatternEvent,
+  type PatternKind,
+  type PatternMatch,
+} from './lib/patternDetector'
+import { loadTuningSettings, saveTuningSettings, type TuningSettings } from './lib/tuning'
+import { loadInstrumentKit, saveInstrumentKit, type InstrumentKit } from './lib/instruments'
+import { DEFAULT_EFFECTS_RACK, type EffectsRackSettings } from './lib/effectsRack'
+import { DEFAULT_REVERBS, type ReverbSettings } from './lib/reverbChannel'
+import {
+  CHANNEL_STRIP_IDS,
+  DEFAULT_CHANNEL_STRIP,
+  DEFAULT_MASTER_BUS,
+  type ChannelStripId,
+  type ChannelStripSettings,
+  type MasterBusSettings,
+} from './lib/masterBus'
+import { Note } from 'tonal'
 import { SynthControls } from './components/SynthControls'
+import { MidiOutputControls } from './components/MidiOutputControls'
+import { MidiInputControls } from './components/MidiInputControls'
+import { TuningControls } from './components/TuningControls'
+import { InstrumentControls } from './components/InstrumentControls'
+import { DigitRoleControls } from './components/DigitRoleControls'
+import { EffectsRackControls } from './components/EffectsRackControls'
+import { ReverbControls } from './components/ReverbControls'
+import { MixerControls } from './components/MixerControls'
+import {
+  VISUALIZER_SCENES,
+  VISUALIZER_SCENE_LABELS,
+  Visualizer,
+  loadVisualizerScene,
+  saveVisualizerScene,
+  type VisualizerScene,
+} from './lib/visualizer'
+import { LevelMeter } from './components/LevelMeter'
+import type { MidiControlTarget } from './lib/midiInput'
+import { DEFAULT_SYNTH_ENVELOPES, type SynthEnvelope } from './lib/synthEnvelopes'
+import type { MidiOutputMode, MidiSink } from './lib/midiOutput'
 import defaults from './config/defaults.json'
-// @ts-ignore - no types available for react-fps-stats
+// @ts-expect-error - no types available for react-fps-stats
 import FPSStats from 'react-fps-stats'
 
+// Most digits kept on screen and in memory; older ones drop off the front, so
+// playback can run on indefinitely
+const DIGIT_WINDOW = 500
+
+// The latest digits of the stream, from stream index `offset`
+interface DigitWindow {
+  offset: number
+  digits: string
+}
+
+function appendToWindow(window: DigitWindow, digits: string): DigitWindow {
+  const all = window.digits + digits
+  const dropped = Math.max(0, all.length - DIGIT_WINDOW)
+  return { offset: window.offset + dropped, digits: all.slice(dropped) }
+}
+
+// The digit at a stream index, if it's still in the window
+function digitAt(window: DigitWindow, index: number): string | undefined {
+  return index >= window.offset ? window.digits[index - window.offset] : undefined
+}
+
+// Octave boundaries offered for the voice leading range (C2-C7)
+const VOICING_RANGE_NOTES = [36, 48, 60, 72, 84, 96]
+
+// Digit colours for detected patterns
+const PATTERN_HIGHLIGHT_CLASSES: Record<PatternKind, string> = {
+  repeat: 'text-red-500',
+  ascending: 'text-green-500',
+  descending: 'text-sky-500',
+  palindrome: 'text-purple-500',
+  custom: 'text-amber-500',
+}
+
+// Patterns kept highlighted in the digit display
+const MAX_PATTERN_HIGHLIGHTS = 50
+
+// Matches grow a digit at a time, so the latest version of each replaces the earlier ones
+function mergePatternHighlights(highlights: PatternMatch[], matches: PatternMatch[]): PatternMatch[] {
+  const ids = new Set(matches.map((match) => match.id))
+  return [...highlights.filter((highlight) => !ids.has(highlight.id)), ...matches].slice(-MAX_PATTERN_HIGHLIGHTS)
+}
+
+// Digits shown before the first played one: the source's integer part from the start,
+// an ellipsis when starting mid-stream
+function digitPrefixFor(source: DigitSourceConfig, position: number, radix: number) {
+  return position === 1 ? createDigitSource(source, radix).prefix : '…'
+}
+
 function App() {
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentDigitIndex, setCurrentDigitIndex] = useState(1) // Start at 1 to show "3."
   const [tempo, setTempo] = useState(defaults.tempo) // 180 BPM from defaults
+  const [rhythm, setRhythm] = useState<RhythmSettings>(DEFAULT_RHYTHM)
   const [showSettings, setShowSettings] = useState(defaults.ui.showSettings)
   const [showFPS, setShowFPS] = useState(defaults.ui.showFPS)
   const [color1, setColor1] = useState(defaults.colors.color1)
   const [color2, setColor2] = useState(defaults.colors.color2)
-  const [piDigits, setPiDigits] = useState(defaults.display.initialPiDigits)
-  const [activeTab, setActiveTab] = useState<'general' | 'percussion' | 'dark' | 'light' | 'debug'>('general')
+  const [digitWindow, setDigitWindow] = useState<DigitWindow>({ offset: 0, digits: defaults.display.initialPiDigits })
+  const { offset: digitOffset, digits: piDigits } = digitWindow
+  const [startPosition, setStartPosition] = useState(1) // Decimal place playback starts from
+  const [startPositionInput, setStartPositionInput] = useState('1')
+  const [digitSource, setDigitSource] = useState<DigitSourceConfig>({ kind: 'pi' })
+  const [customDigitsInput, setCustomDigitsInput] = useState('')
+  const [randomSeedInput, setRandomSeedInput] = useState('314159')
+  const [radix, setRadix] = useState(10) // Number base the digits are rendered in
+  const [activeTab, setActiveTab] = useState<'general' | 'percussion' | 'dark' | 'light' | 'kit' | 'mixer' | 'debug'>('general')
   const [debugEvents, setDebugEvents] = useState<string[]>([])
   
-  // Dark Theme Reverb State (7 parameters)
-  const [darkReverbDecay, setDarkReverbDecay] = useState(3.0)
-  const [darkReverbWet, setDarkReverbWet] = useState(50)
-  const [darkReverbPreDelay, setDarkReverbPreDelay] = useState(0)
-  const [darkReverbRoomSize, setDarkReverbRoomSize] = useState(2.0)
-  const [darkReverbDamping, setDarkReverbDamping] = useState(4000)
-  const [darkReverbEarlyLate, setDarkReverbEarlyLate] = useState(50)
-  const [darkReverbStereoWidth, setDarkReverbStereoWidth] = useState(100)
-  
-  // Light Theme Reverb State (7 parameters) 
-  const [lightReverbDecay, setLightReverbDecay] = useState(1.5)
-  const [lightReverbWet, setLightReverbWet] = useState(30)
-  const [lightReverbPreDelay, setLightReverbPreDelay] = useState(0)
-  const [lightReverbRoomSize, setLightReverbRoomSize] = useState(2.0)
-  const [lightReverbDamping, setLightReverbDamping] = useState(6000)
-  const [lightReverbEarlyLate, setLightReverbEarlyLate] = useState(50)
-  const [lightReverbStereoWidth, setLightReverbStereoWidth] = useState(100)
+  // Audio export
+  const [exportDigitCountInput, setExportDigitCountInput] = useState('64')
+  const [exportBitDepth, setExportBitDepth] = useState<WavBitDepth>(16)
+  const [exportStatus, setExportStatus] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  
+  // Per-theme effects racks (filter, distortion, chorus, delay, reverb)
+  const [darkEffectsRack, setDarkEffectsRack] = useState<EffectsRackSettings>(DEFAULT_EFFECTS_RACK)
+  const [lightEffectsRack, setLightEffectsRack] = useState<EffectsRackSettings>(DEFAULT_EFFECTS_RACK)
+  
+  // Reverb channel settings by theme
+  const [reverbs, setReverbs] = useState<Record<'dark' | 'light', ReverbSettings>>(DEFAULT_REVERBS)
+  
+  // Mixer: a channel strip per voice, and the master bus
+  const [channelStrips, setChannelStrips] = useState(
+    () => Object.fromEntries(CHANNEL_STRIP_IDS.map((id) => [id, DEFAULT_CHANNEL_STRIP])) as Record<ChannelStripId, ChannelStripSettings>
+  )
+  const [masterBus, setMasterBus] = useState<MasterBusSettings>(DEFAULT_MASTER_BUS)
+  
+  // Synth settings MIDI knobs can move, held here so the sliders follow them
+  const [synthEnvelopes, setSynthEnvelopes] = useState(DEFAULT_SYNTH_ENVELOPES)
+  const [synthDetunes, setSynthDetunes] = useState<Record<'dark' | 'light', number>>({ dark: 0, light: 0 })
+  const [kickPitchDecay, setKickPitchDecay] = useState(0.05)
+  const [hihatFrequency, setHihatFrequency] = useState(200)
   
   // Musical Theory Settings
   const [selectedKey, setSelectedKey] = useState('C')
   const [selectedMode, setSelectedMode] = useState('ionian')
-  const [selectedScale, setSelectedScale] = useState('major')
+  const [selectedScale, setSelectedScale] = useState<ScaleType>('diatonic')
   const [selectedChord, setSelectedChord] = useState('triads')
+  const [voiceLeading, setVoiceLeading] = useState<VoiceLeadingSettings>(DEFAULT_VOICE_LEADING)
+  const [modifiers, setModifiers] = useState<ModifierSettings>(DEFAULT_MODIFIERS)
+  const [harmonicJourney, setHarmonicJourney] = useState<HarmonicJourneySettings>(DEFAULT_HARMONIC_JOURNEY)
+  const [keyCenter, setKeyCenter] = useState<KeyCenter>({ key: 'C', mode: 'ionian' }) // Where the journey is now
+  const [tuning, setTuning] = useState<TuningSettings>(loadTuningSettings)
+  const [instrumentKit, setInstrumentKit] = useState<InstrumentKit>(loadInstrumentKit)
+  const [radixRoles, setRadixRoles] = useState<RadixRoles>(loadRadixRoles)
+  const [patternDetection, setPatternDetection] = useState<PatternDetectionSettings>(DEFAULT_PATTERN_DETECTION)
+  const [customPatternsInput, setCustomPatternsInput] = useState(DEFAULT_PATTERN_DETECTION.custom.join(', '))
+  const [patternHighlights, setPatternHighlights] = useState<PatternMatch[]>([])
   
-  // Pi generator instance
-  const piGenerator = useRef(new PiGenerator())
+  // Pi digit stream (computed in a worker), created on mount
+  const digitStream = useRef<PiDigitStream | null>(null)
+  const [digitsAvailable, setDigitsAvailable] = useState(0)
+  const [digitProgress, setDigitProgress] = useState<{ computed: number; target: number } | null>(null)
   const initializedRef = useRef(false)
   
   // Audio engine instance
   const audioEngine = useRef(new AudioEngine())
   
+  // Visualizer behind the digits; it draws on its own animation loop
+  const visualizerCanvasRef = useRef<HTMLCanvasElement>(null)
+  const visualizer = useRef<Visualizer | null>(null)
+  const [visualizerScene, setVisualizerScene] = useState<VisualizerScene>(loadVisualizerScene)
+  
+  const digitPrefix = digitPrefixFor(digitSource, startPosition, radix)
+  
   // Debug logging function
   const addDebugEvent = useCallback((message: string) => {
     const timestamp = new Date().toLocaleTimeString()
@@ -61,21 +220,274 @@ function App() {
     if (!initializedRef.current) {
       initializedRef.current = true
       // Start with just "3." and generate as needed
-      setPiDigits('3.')
+      setDigitWindow({ offset: 0, digits: '3.' })
       // Set up debug callback
       audioEngine.current.setDebugCallback(addDebugEvent)
+      audioEngine.current.setKeyChangeCallback(setKeyCenter)
+      audioEngine.current.setPatternCallback((matches) => {
+        setPatternHighlights((prev) => mergePatternHighlights(prev, matches))
+      })
     }
   }, [addDebugEvent])
   
-  // Generate more digits when needed (but limit total to prevent crashes)
+  // Start the digit worker and prefetch the first chunk
+  useEffect(() => {
+    const stream = new PiDigitStream()
+    stream.setAvailableCallback((available) => {
+      setDigitProgress(null)
+      setDigitsAvailable(available)
+    })
+    stream.setProgressCallback((computed, target) => setDigitProgress({ computed, target }))
+    stream.setErrorCallback((message) => {
+      setDigitProgress(null)
+      setIsPlaying(false)
+      addDebugEvent(`❌ Digit worker failed: ${message}`)
+    })
+    digitStream.current = stream
+    
+    return () => {
+      stream.dispose()
+      digitStream.current = null
+    }
+  }, [addDebugEvent])
+  
+  // Pull more digits from the prefetched buffer when needed, sliding the window along
+  useEffect(() => {
+    const stream = digitStream.current
+    if (!stream) return
+    
+    if (currentDigitIndex >= digitOffset + piDigits.length - 10) {
+      // Take 50 more digits when we're within 10 digits of the end
+      const newDigits = stream.take(50)
+      if (newDigits) {
+        setDigitWindow(prev => appendToWindow(prev, newDigits))
+      }
+    }
+  }, [currentDigitIndex, digitOffset, piDigits.length, digitsAvailable])
+
+  // Restart the digit stream from any place after the point (e.g. the Feynman point),
+  // optionally switching to another number source or base
+  const jumpToPosition = useCallback((
+    position: number,
+    source: DigitSourceConfig = digitSource,
+    newRadix: number = radix
+  ) => {
+    if (!Number.isInteger(position) || position < 1) return
+    
+    const prefix = digitPrefixFor(source, position, newRadix)
+    setIsPlaying(false)
+    setDigitSource(source)
+    setRadix(newRadix)
+    audioEngine.current.setRadix(newRadix)
+    setStartPosition(position)
+    setStartPositionInput(String(position))
+    setDigitWindow({ offset: 0, digits: prefix })
+    setCurrentDigitIndex(prefix.length - 1)
+    setPatternHighlights([])
+    digitStream.current?.reset(position, source, newRadix)
+    addDebugEvent(`🔢 ${DIGIT_SOURCE_LABELS[source.kind]} in base ${newRadix} from place ${position}`)
+  }, [digitSource, radix, addDebugEvent])
+  
+  const selectDigitSource = useCallback((kind: DigitSourceKind) => {
+    switch (kind) {
+      case 'custom':
+        jumpToPosition(1, { kind, digits: customDigitsInput })
+        break
+      case 'random':
+        jumpToPosition(1, { kind, seed: Number(randomSeedInput) || 0 })
+        break
+      default:
+        jumpToPosition(1, { kind })
+    }
+  }, [jumpToPosition, customDigitsInput, randomSeedInput])
+
+  const exportDigitCount = Number(exportDigitCountInput)
+  const exportCountError = Number.isInteger(exportDigitCount) && exportDigitCount >= 1
+    ? null
+    : 'Enter a whole number of digits, 1 or more'
+
+  // Digits from the start position to export, computed by the digit worker so a
+  // long export doesn't freeze the page; null for an invalid count
+  const exportDigits = useCallback(async () => {
+    const count = Number(exportDigitCountInput)
+    const stream = digitStream.current
+    if (!stream || !Number.isInteger(count) || count < 1) return null
+    setExportStatus(`Computing ${count} digits...`)
+    return [...await stream.request(startPosition, count, digitSource, radix)]
+  }, [exportDigitCountInput, digitSource, radix, startPosition])
+  
+  const exportFilename = useCallback((digitCount: number, extension: string) => {
+    return `${digitSource.kind}-base${radix}-${startPosition}-${digitCount}.${extension}`
+  }, [digitSource, radix, startPosition])
+  
+  // Render digits from the start position to a WAV file with the current sound settings
+  const exportWav = useCallback(async () => {
+    setIsExporting(true)
+    try {
+      const digits = await exportDigits()
+      if (!digits) return
+      const count = digits.length
+      
+      setIsPlaying(false)
+      setExportStatus(`Rendering ${count} digits...`)
+      addDebugEvent(`💾 Rendering ${count} digits offline`)
+      
+      const buffer = await renderDigitsOffline({
+        digits,
+        tempo,
+        rhythm,
+        radix,
+        settingsFrom: audioEngine.current,
+      })
+      downloadBlob(encodeWav(buffer, exportBitDepth), exportFilename(count, 'wav'))
+      setExportStatus(`Exported ${count} digits (${buffer.duration.toFixed(1)}s)`)
+      addDebugEvent(`💾 WAV export complete: ${buffer.duration.toFixed(1)}s`)
+    } catch (error) {
+      setExportStatus('Export failed')
+      addDebugEvent(`❌ WAV export failed: ${error}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }, [exportDigits, exportFilename, exportBitDepth, radix, tempo, rhythm, addDebugEvent])
+  
+  // Write the same digits as a MIDI file for re-orchestrating in a DAW
+  const exportMidi = useCallback(async () => {
+    setIsExporting(true)
+    try {
+      const digits = await exportDigits()
+      if (!digits) return
+      
+      downloadBlob(
+        exportDigitsToMidi({ digits, tempo, rhythm, radix, notesFrom: audioEngine.current }),
+        exportFilename(digits.length, 'mid')
+      )
+      setExportStatus(`Exported ${digits.length} digits as MIDI at ${tempo} BPM`)
+      addDebugEvent(`💾 MIDI export complete: ${digits.length} digits`)
+    } catch (error) {
+      setExportStatus('Export failed')
+      addDebugEvent(`❌ MIDI export failed: ${error}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }, [exportDigits, exportFilename, radix, tempo, rhythm, addDebugEvent])
+
+  // Voice leading is pure music theory, so it applies before audio starts too
+  const updateVoiceLeading = useCallback((settings: VoiceLeadingSettings) => {
+    setVoiceLeading(settings)
+    audioEngine.current.setVoiceLeading(settings)
+  }, [])
+  
+  const updateHarmonicJourney = useCallback((settings: HarmonicJourneySettings) => {
+    setHarmonicJourney(settings)
+    audioEngine.current.setHarmonicJourney(settings)
+  }, [])
+  
+  const toggleJourneyMove = (move: JourneyMove) => {
+    const moves = harmonicJourney.moves.includes(move)
+      ? harmonicJourney.moves.filter((m) => m !== move)
+      : [...harmonicJourney.moves, move]
+    // Keep at least one move to make
+    if (moves.length > 0) updateHarmonicJourney({ ...harmonicJourney, moves })
+  }
+  
+  // Tunings are saved between sessions, like MIDI mappings
+  useEffect(() => {
+    saveTuningSettings(tuning)
+    audioEngine.current.setTuning(tuning)
+  }, [tuning])
+  
+  useEffect(() => {
+    saveInstrumentKit(instrumentKit)
+    audioEngine.current.setInstrumentKit(instrumentKit)
+  }, [instrumentKit])
+  
+  useEffect(() => {
+    saveRadixRoles(radixRoles)
+    audioEngine.current.setRadixRoles(radixRoles)
+  }, [radixRoles])
+  
+  // The visualizer reads the master output once audio starts, and gets each
+  // digit as it sounds (see onStep below)
   useEffect(() => {
-    if (currentDigitIndex >= piDigits.length - 10 && piDigits.length < 500) {
-      // Generate 50 more digits when we're within 10 digits of the end
-      // Limit to 500 total digits to prevent memory issues
-      const newDigits = piGenerator.current.generateDigits(50)
-      setPiDigits(prev => prev + newDigits)
+    if (!visualizerCanvasRef.current) return
+    const instance = new Visualizer(visualizerCanvasRef.current, () => audioEngine.current.getOutputAnalyser())
+    visualizer.current = instance
+    return () => {
+      instance.dispose()
+      visualizer.current = null
     }
-  }, [currentDigitIndex, piDigits.length])
+  }, [])
+  
+  useEffect(() => {
+    saveVisualizerScene(visualizerScene)
+    visualizer.current?.setScene(visualizerScene)
+  }, [visualizerScene])
+  
+  useEffect(() => {
+    visualizer.current?.setRadix(radix)
+  }, [radix])
+  
+  // Reverb settings are kept by the engine before audio starts, and applied when it does
+  const updateReverb = useCallback((theme: 'dark' | 'light', changes: Partial<ReverbSettings>) => {
+    setReverbs((current) => ({ ...current, [theme]: { ...current[theme], ...changes } }))
+    audioEngine.current.setReverb(theme, changes)
+  }, [])
+  
+  // Kept in a ref as well, so knob turns arriving before the next render build on each other
+  const synthEnvelopesRef = useRef(DEFAULT_SYNTH_ENVELOPES)
+  const updateSynthEnvelope = useCallback((theme: 'dark' | 'light', envelope: SynthEnvelope) => {
+    synthEnvelopesRef.current = { ...synthEnvelopesRef.current, [theme]: envelope }
+    setSynthEnvelopes(synthEnvelopesRef.current)
+    if (theme === 'dark') audioEngine.current.setDarkSynthEnvelope(envelope)
+    else audioEngine.current.setLightSynthEnvelope(envelope)
+  }, [])
+  
+  const updateSynthDetune = useCallback((theme: 'dark' | 'light', detune: number) => {
+    setSynthDetunes((current) => ({ ...current, [theme]: detune }))
+    if (theme === 'dark') audioEngine.current.setDarkSynthDetune(detune)
+    else audioEngine.current.setLightSynthDetune(detune)
+  }, [])
+  
+  const updateKickPitchDecay = useCallback((decay: number) => {
+    setKickPitchDecay(decay)
+    audioEngine.current.setKickPitchDecay(decay)
+  }, [])
+  
+  const updateHihatFrequency = useCallback((frequency: number) => {
+    setHihatFrequency(frequency)
+    audioEngine.current.setHihatFrequency(frequency)
+  }, [])
+  
+  const updateChannelStrip = useCallback((id: ChannelStripId, changes: Partial<ChannelStripSettings>) => {
+    setChannelStrips((current) => ({ ...current, [id]: { ...current[id], ...changes } }))
+    audioEngine.current.setChannelStrip(id, changes)
+  }, [])
+  
+  const updateMasterBus = useCallback((settings: MasterBusSettings) => {
+    setMasterBus(settings)
+    audioEngine.current.setMasterBus(settings)
+  }, [])
+  
+  const readMeter = useCallback(() => audioEngine.current.getMeterReading(), [])
+  
+  const updatePatternDetection = useCallback((settings: PatternDetectionSettings) => {
+    setPatternDetection(settings)
+    audioEngine.current.setPatternDetection(settings)
+  }, [])
+  
+  const updateModifiers = useCallback((settings: ModifierSettings) => {
+    setModifiers(settings)
+    audioEngine.current.setModifiers(settings)
+  }, [])
+  
+  // Live MIDI output (the controls rebuild the sink when the port or channels change)
+  const handleMidiSinkChange = useCallback((sink: MidiSink | null) => {
+    audioEngine.current.setMidiSink(sink)
+  }, [])
+  
+  const handleMidiOutputModeChange = useCallback((mode: MidiOutputMode) => {
+    audioEngine.current.setMidiOutputMode(mode)
+  }, [])
 
   // Update CSS custom properties when colors change
   useEffect(() => {
@@ -85,8 +497,9 @@ function App() {
 
   // Cleanup audio engine on unmount
   useEffect(() => {
+    const engine = audioEngine.current
     return () => {
-      audioEngine.current.dispose()
+      engine.dispose()
     }
   }, [])
 
@@ -115,9 +528,65 @@ function App() {
     }
   }, [currentDigitIndex])
 
+  // Play a digit by hand (computer keyboard or MIDI note), outside the sequencer
+  const playManualDigit = useCallback((symbol: string, source: string, velocity = 1) => {
+    const role = digitRole(symbol, radix, radixRoles)
+    if (!role) return
+    
+    // Update theme if a drum symbol was pressed
+    if (role.type === 'kick') {
+      setCurrentTheme('dark')
+      addDebugEvent(`🌙 Manual ${source} ${symbol}: Switched to DARK theme`)
+    } else if (role.type === 'hihat') {
+      setCurrentTheme('light')
+      addDebugEvent(`☀️ Manual ${source} ${symbol}: Switched to LIGHT theme`)
+    }
+    
+    // Initialize audio if needed
+    if (!audioEngine.current.initialized) {
+      audioEngine.current.initialize().then(() => {
+        addDebugEvent(`🎹 Manual ${source}: ${symbol}`)
+        audioEngine.current.playDigit(symbol, undefined, { velocity })
+      })
+    } else {
+      addDebugEvent(`🎹 Manual ${source}: ${symbol}`)
+      audioEngine.current.playDigit(symbol, undefined, { velocity })
+    }
+  }, [radix, radixRoles, addDebugEvent])
+  
+  const handleMidiDigit = useCallback((digit: string, velocity: number) => {
+    playManualDigit(digit, 'MIDI note', velocity)
+  }, [playManualDigit])
+  
+  // Knobs go through the sliders' own setters, so the sliders follow them
+  const handleMidiControl = useCallback((target: MidiControlTarget, value: number) => {
+    target.apply({
+      setReverb: updateReverb,
+      setSynthEnvelopeStage: (theme, stage, stageValue) => {
+        updateSynthEnvelope(theme, { ...synthEnvelopesRef.current[theme], [stage]: stageValue })
+      },
+      setSynthDetune: updateSynthDetune,
+      setKickPitchDecay: updateKickPitchDecay,
+      setHihatFrequency: updateHihatFrequency,
+    }, value)
+  }, [updateReverb, updateSynthEnvelope, updateSynthDetune, updateKickPitchDecay, updateHihatFrequency])
+
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
+      // Let text fields (start position, number editing) keep their keystrokes
+      if (e.target instanceof HTMLTextAreaElement) return
+      if (e.target instanceof HTMLInputElement && e.target.type !== 'range') return
+      
+      // Debug keys - trigger synths directly (Shift+letter for digits above 9, e.g. hex A-F)
+      const symbol = e.shiftKey ? e.key.toUpperCase() : e.key
+      const isDigitKey = /^[0-9]$/.test(e.key) || (e.shiftKey && /^[a-z]$/i.test(e.key))
+      if (isDigitKey && digitRole(symbol, radix, radixRoles)) {
+        e.preventDefault()
+        playManualDigit(symbol, 'key')
+        return
+      }
+      
       if (e.code === 'Space') {
         e.preventDefault()
         if (!isPlaying) {
@@ -142,65 +611,79 @@ function App() {
         setShowSettings(true)
         setActiveTab('debug')
       }
-      
-      // Debug keys - trigger synths directly
-      if (e.key >= '0' && e.key <= '9') {
+      if (e.key === 'v' || e.key === 'V') {
         e.preventDefault()
-        
-        // Update theme if 0 or 1 pressed
-        if (e.key === '0') {
-          setCurrentTheme('dark')
-          addDebugEvent('🌙 Manual key 0: Switched to DARK theme')
-        } else if (e.key === '1') {
-          setCurrentTheme('light')
-          addDebugEvent('☀️ Manual key 1: Switched to LIGHT theme')
-        }
-        
-        // Initialize audio if needed
-        if (!audioEngine.current.initialized) {
-          audioEngine.current.initialize().then(() => {
-            addDebugEvent(`🎹 Manual key: ${e.key}`)
-            audioEngine.current.playDigit(e.key)
-          })
-        } else {
-          addDebugEvent(`🎹 Manual key: ${e.key}`)
-          audioEngine.current.playDigit(e.key)
-        }
+        setVisualizerScene((scene) => VISUALIZER_SCENES[(VISUALIZER_SCENES.indexOf(scene) + 1) % VISUALIZER_SCENES.length])
       }
     }
 
     window.addEventListener('keydown', handleKeyPress)
     return () => window.removeEventListener('keydown', handleKeyPress)
-  }, [isPlaying, showSettings, showFPS, addDebugEvent])
+  }, [isPlaying, showSettings, showFPS, radix, radixRoles, playManualDigit])
 
-  // Playback timer effect
+  // Latest values for the sequencer, which runs on the audio clock outside React renders
+  const digitWindowRef = useRef(digitWindow)
+  digitWindowRef.current = digitWindow
+  const currentDigitIndexRef = useRef(currentDigitIndex)
+  currentDigitIndexRef.current = currentDigitIndex
+  const radixRef = useRef(radix)
+  radixRef.current = radix
+  const radixRolesRef = useRef(radixRoles)
+  radixRolesRef.current = radixRoles
+  const sequencer = useRef<DigitSequencer | null>(null)
+  
+  useEffect(() => {
+    const digitSequencer = new DigitSequencer({
+      getDigit: (index) => digitAt(digitWindowRef.current, index),
+      isExhausted: () => !!digitStream.current?.finished,
+      isTieable: (digit) => isPitchedDigit(digit, radixRef.current, radixRolesRef.current),
+      playDigit: (digit, time, options) => audioEngine.current.playDigit(digit, time, options),
+      onDigit: (digit, index, time) => audioEngine.current.watchDigit(digit, index, time),
+      onStep: (index) => {
+        setCurrentDigitIndex(index)
+        const digit = digitAt(digitWindowRef.current, index) ?? ''
+        visualizer.current?.pushDigit(digit, index)
+        addDebugEvent(`🎵 Playing digit: ${digit}`)
+      },
+      onEnd: () => setIsPlaying(false), // Stop at end
+    })
+    sequencer.current = digitSequencer
+    
+    return () => {
+      digitSequencer.dispose()
+      sequencer.current = null
+    }
+  }, [addDebugEvent])
+  
+  // Tempo follows the slider without restarting playback; tempo-synced delays follow it
+  useEffect(() => {
+    sequencer.current?.setTempo(tempo)
+    audioEngine.current.retimeEffects()
+  }, [tempo])
+  
+  // Grid, swing, time signature and ties
+  useEffect(() => {
+    sequencer.current?.setRhythm(rhythm)
+  }, [rhythm])
+  
+  // Start/stop the sequencer with the play state
   useEffect(() => {
     if (!isPlaying) return
-
-    const intervalMs = 60000 / tempo // 120 BPM = 500ms per digit = 2 digits/sec
     
-    const interval = setInterval(() => {
-      setCurrentDigitIndex(prev => {
-        if (prev >= piDigits.length - 1) {
-          setIsPlaying(false) // Stop at end
-          return prev
-        }
-        const newIndex = prev + 1
-        // Play audio for the new digit
-        const digit = piDigits[newIndex]
-        if (digit && digit !== '.') {
-          addDebugEvent(`🎵 Playing digit: ${digit}`)
-          audioEngine.current.playDigit(digit)
-        }
-        return newIndex
-      })
-    }, intervalMs)
-
-    return () => clearInterval(interval)
-  }, [isPlaying, tempo, piDigits.length]) // Add all dependencies
+    const engine = audioEngine.current
+    engine.resetVoiceLeading()
+    engine.resetModifiers()
+    engine.resetHarmonicJourney()
+    engine.resetPatternDetection()
+    sequencer.current?.start(currentDigitIndexRef.current)
+    return () => {
+      sequencer.current?.stop()
+      engine.stopMidiNotes()
+    }
+  }, [isPlaying])
 
   // Get current digit being played
-  const currentDigit = piDigits[currentDigitIndex] || '3'
+  const currentDigit = digitAt(digitWindow, currentDigitIndex) || '3'
   
   // Determine colors based on current digit
   // When 1 plays: light theme (black text on white background) 
@@ -226,15 +709,22 @@ function App() {
   }, [debugEvents, currentTheme, isPlaying, currentDigit, addDebugEvent])
   
   useEffect(() => {
-    if (currentDigit === '0') {
+    const role = digitRole(currentDigit, radix, radixRoles)
+    if (role?.type === 'kick') {
       setCurrentTheme('dark') // Dark theme: white text on black bg
-    } else if (currentDigit === '1') {
+    } else if (role?.type === 'hihat') {
       setCurrentTheme('light') // Light theme: black text on white bg
     }
-    // For digits 2-9, keep current theme unchanged
-  }, [currentDigit])
+    // For melody digits, keep current theme unchanged
+  }, [currentDigit, radix, radixRoles])
   
   const useColor1Background = currentTheme === 'light'
+  
+  // Pattern kind of each highlighted digit; later matches win where they overlap
+  const highlightedDigits = new Map<number, PatternKind>()
+  for (const match of patternHighlights) {
+    for (let index = match.start; index <= match.end; index++) highlightedDigits.set(index, match.kind)
+  }
 
   return (
     <div 
@@ -245,6 +735,20 @@ function App() {
       {/* FPS Stats - toggle with 'F' key */}
       {showFPS && <FPSStats top="auto" right={20} bottom={100} left="auto" />}
       
+      {/* Current key while a harmonic journey moves it around */}
+      {harmonicJourney.enabled && (
+        <div className="fixed top-2 right-8 z-10 text-sm font-mono opacity-70" title="Current key (harmonic journey)">
+          🧭 {describeKeyCenter(keyCenter)}
+        </div>
+      )}
+      
+      
+      {/* Audio-reactive visualizer, drawn in the theme's text colour behind the digits */}
+      <canvas
+        ref={visualizerCanvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        aria-hidden="true"
+      />
       
       {/* Main digit display area */}
       <div 
@@ -252,19 +756,23 @@ function App() {
         className="absolute top-8 left-8 right-8 bottom-24 overflow-auto"
       >
         <div className="text-6xl md:text-8xl font-mono leading-tight tracking-wider break-words pb-96">
-          {piDigits.slice(0, currentDigitIndex + 1).split('').map((digit, index) => (
-            <span
-              key={index}
-              data-index={index}
-              className={`${
-                index === currentDigitIndex 
-                  ? 'opacity-100 font-bold' 
-                  : 'opacity-40'
-              }`}
-            >
-              {digit}
-            </span>
-          ))}
+          {piDigits.slice(0, currentDigitIndex - digitOffset + 1).split('').map((digit, position) => {
+            // Stream index, which the highlights and scrolling go by
+            const index = digitOffset + position
+            return (
+              <span
+                key={index}
+                data-index={index}
+                className={`${
+                  index === currentDigitIndex 
+                    ? 'opacity-100 font-bold' 
+                    : highlightedDigits.has(index) ? 'opacity-80' : 'opacity-40'
+                } ${highlightedDigits.has(index) ? PATTERN_HIGHLIGHT_CLASSES[highlightedDigits.get(index)!] : ''}`}
+              >
+                {digit}
+              </span>
+            )
+          })}
         </div>
       </div>
 
@@ -306,18 +814,20 @@ function App() {
       {showSettings && (
         <div className="fixed top-8 right-8 bg-white text-black rounded-lg shadow-lg min-w-80 max-w-96">
           {/* Tab Navigation */}
-          <div className="flex border-b border-gray-200">
+          <div className="flex border-b border-gray-200 overflow-x-auto">
             {[
               { id: 'general', label: 'General' },
               { id: 'percussion', label: 'Percussion' },
               { id: 'dark', label: 'Dark' },
               { id: 'light', label: 'Light' },
+              { id: 'kit', label: 'Kit' },
+              { id: 'mixer', label: 'Mixer' },
               { id: 'debug', label: 'Debug' }
             ].map((tab) => (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id as any)}
-                className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                onClick={() => setActiveTab(tab.id as typeof activeTab)}
+                className={`px-3 py-3 text-sm font-medium border-b-2 transition-colors ${
                   activeTab === tab.id
                     ? 'border-blue-500 text-blue-600'
                     : 'border-transparent text-gray-600 hover:text-gray-800'
@@ -336,7 +846,7 @@ function App() {
                 
                 <div>
                   <label htmlFor="tempo-slider" className="block text-sm font-medium mb-2">
-                    Tempo: {tempo} BPM ({(tempo/60).toFixed(1)} digits/sec)
+                    Tempo: {tempo} BPM ({(digitsPerMinute(tempo, rhythm.grid)/60).toFixed(1)} digits/sec)
                   </label>
                   <input
                     id="tempo-slider"
@@ -356,6 +866,210 @@ function App() {
                   </div>
                 </div>
                 
+                {/* Rhythm Controls */}
+                <div className="space-y-3 border-t pt-4">
+                  <h4 className="text-lg font-semibold mb-3">🥁 Rhythm</h4>
+                  
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="grid-select" className="block text-sm font-medium mb-2">
+                        Digit grid
+                      </label>
+                      <select
+                        id="grid-select"
+                        value={rhythm.grid}
+                        onChange={(e) => setRhythm(prev => ({ ...prev, grid: e.target.value as DigitGrid }))}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                      >
+                        {GRID_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    
+                    <div>
+                      <label htmlFor="time-signature-select" className="block text-sm font-medium mb-2">
+                        Time signature
+                      </label>
+                      <select
+                        id="time-signature-select"
+                        value={rhythm.timeSignature.join('/')}
+                        onChange={(e) => {
+                          const [beats, unit] = e.target.value.split('/').map(Number)
+                          setRhythm(prev => ({ ...prev, timeSignature: [beats, unit] }))
+                        }}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                      >
+                        {TIME_SIGNATURES.map((signature) => (
+                          <option key={signature.join('/')} value={signature.join('/')}>{signature.join('/')}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <label htmlFor="swing-slider" className="block text-sm font-medium mb-2">
+                      Swing: {gridSwings(rhythm.grid) ? `${Math.round(rhythm.swing * 100)}%` : 'off for quarter notes'}
+                    </label>
+                    <input
+                      id="swing-slider"
+                      name="swing"
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={rhythm.swing}
+                      disabled={!gridSwings(rhythm.grid)}
+                      onChange={(e) => setRhythm(prev => ({ ...prev, swing: Number(e.target.value) }))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                    />
+                  </div>
+                  
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={rhythm.accentDownbeats}
+                      onChange={(e) => setRhythm(prev => ({ ...prev, accentDownbeats: e.target.checked }))}
+                    />
+                    Accent downbeats
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={rhythm.tieRepeats}
+                      onChange={(e) => setRhythm(prev => ({ ...prev, tieRepeats: e.target.checked }))}
+                    />
+                    Tie repeated digits into longer notes
+                  </label>
+                </div>
+                
+                <div>
+                  <label htmlFor="digit-source-select" className="block text-sm font-medium mb-2">
+                    Number source
+                  </label>
+                  <select
+                    id="digit-source-select"
+                    value={digitSource.kind}
+                    onChange={(e) => selectDigitSource(e.target.value as DigitSourceKind)}
+                    className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                  >
+                    {Object.entries(DIGIT_SOURCE_LABELS).map(([kind, label]) => (
+                      <option key={kind} value={kind}>{label}</option>
+                    ))}
+                  </select>
+                  
+                  {digitSource.kind === 'custom' && (
+                    <div className="mt-2 space-y-2">
+                      <textarea
+                        id="custom-digits"
+                        name="customDigits"
+                        value={customDigitsInput}
+                        onChange={(e) => setCustomDigitsInput(e.target.value)}
+                        placeholder="Paste digits, e.g. 2.7182818284..."
+                        rows={3}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm font-mono"
+                      />
+                      <button
+                        onClick={() => selectDigitSource('custom')}
+                        className="px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-sm"
+                      >
+                        Use these digits
+                      </button>
+                    </div>
+                  )}
+                  
+                  {digitSource.kind === 'random' && (
+                    <div className="mt-2 flex gap-2">
+                      <input
+                        id="random-seed"
+                        name="randomSeed"
+                        type="number"
+                        value={randomSeedInput}
+                        onChange={(e) => setRandomSeedInput(e.target.value)}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                      />
+                      <button
+                        onClick={() => selectDigitSource('random')}
+                        className="px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-sm"
+                      >
+                        Reseed
+                      </button>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">Hear other constants through the same mapping</p>
+                </div>
+                
+                <div>
+                  <label htmlFor="radix-select" className="block text-sm font-medium mb-2">
+                    Number base
+                  </label>
+                  <select
+                    id="radix-select"
+                    value={radix}
+                    onChange={(e) => jumpToPosition(1, digitSource, Number(e.target.value))}
+                    className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                  >
+                    {SUPPORTED_RADIXES.map((base) => (
+                      <option key={base} value={base}>{RADIX_MAPPINGS[base].label}</option>
+                    ))}
+                  </select>
+                  <details className="mt-2">
+                    <summary className="text-sm cursor-pointer">What each digit plays</summary>
+                    <div className="mt-2">
+                      <DigitRoleControls radix={radix as SupportedRadix} roles={radixRoles} onChange={setRadixRoles} />
+                    </div>
+                  </details>
+                </div>
+                
+                <div>
+                  <label htmlFor="visualizer-select" className="block text-sm font-medium mb-2">
+                    Visualizer
+                  </label>
+                  <select
+                    id="visualizer-select"
+                    value={visualizerScene}
+                    onChange={(e) => setVisualizerScene(e.target.value as VisualizerScene)}
+                    className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                  >
+                    {VISUALIZER_SCENES.map((scene) => (
+                      <option key={scene} value={scene}>{VISUALIZER_SCENE_LABELS[scene]}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Press V to cycle scenes</p>
+                </div>
+                
+                <div>
+                  <label htmlFor="start-position" className="block text-sm font-medium mb-2">
+                    Start position (place after the point)
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      id="start-position"
+                      name="startPosition"
+                      type="number"
+                      min={1}
+                      value={startPositionInput}
+                      onChange={(e) => setStartPositionInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') jumpToPosition(Number(startPositionInput))
+                      }}
+                      className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                    />
+                    <button
+                      onClick={() => jumpToPosition(Number(startPositionInput))}
+                      className="px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-sm"
+                    >
+                      Go
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => jumpToPosition(762)}
+                    className="text-xs text-blue-600 hover:underline mt-1"
+                  >
+                    Jump to the Feynman point (762)
+                  </button>
+                </div>
+                
                 <div className="space-y-2">
                   <div>
                     <label htmlFor="color1-picker" className="block text-sm font-medium mb-2">
@@ -401,9 +1115,7 @@ function App() {
                         value={selectedKey}
                         onChange={(e) => {
                           setSelectedKey(e.target.value)
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setMusicalKey(e.target.value)
-                          }
+                          audioEngine.current.setMusicalKey(e.target.value)
                         }}
                         className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
                       >
@@ -433,9 +1145,7 @@ function App() {
                         value={selectedMode}
                         onChange={(e) => {
                           setSelectedMode(e.target.value)
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setMusicalMode(e.target.value)
-                          }
+                          audioEngine.current.setMusicalMode(e.target.value)
                         }}
                         className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
                       >
@@ -460,20 +1170,16 @@ function App() {
                         id="scale-select"
                         value={selectedScale}
                         onChange={(e) => {
-                          setSelectedScale(e.target.value)
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setMusicalScale(e.target.value)
-                          }
+                          setSelectedScale(e.target.value as ScaleType)
+                          audioEngine.current.setMusicalScale(e.target.value)
                         }}
                         className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
                       >
-                        <option value="major">Major</option>
-                        <option value="minor">Natural Minor</option>
-                        <option value="pentatonic">Pentatonic</option>
-                        <option value="blues">Blues</option>
-                        <option value="chromatic">Chromatic</option>
+                        {(Object.keys(SCALES) as ScaleType[]).map((scale) => (
+                          <option key={scale} value={scale}>{SCALES[scale].label}</option>
+                        ))}
                       </select>
-                      <p className="text-xs text-gray-500 mt-1">Base scale structure for melody</p>
+                      <p className="text-xs text-gray-500 mt-1">Notes digits 2-9 climb through, major or minor per the mode</p>
                     </div>
 
                     {/* Chord Type Selection */}
@@ -486,9 +1192,7 @@ function App() {
                         value={selectedChord}
                         onChange={(e) => {
                           setSelectedChord(e.target.value)
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setMusicalChord(e.target.value)
-                          }
+                          audioEngine.current.setMusicalChord(e.target.value)
                         }}
                         className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
                       >
@@ -500,18 +1204,294 @@ function App() {
                       <p className="text-xs text-gray-500 mt-1">Harmony complexity for polyphonic play</p>
                     </div>
                   </div>
+                  
+                  {/* Voice Leading */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label htmlFor="voicing-select" className="block text-sm font-medium mb-2">
+                        Voice leading
+                      </label>
+                      <select
+                        id="voicing-select"
+                        value={voiceLeading.enabled ? voiceLeading.voicing : 'off'}
+                        onChange={(e) => {
+                          const value = e.target.value
+                          updateVoiceLeading(value === 'off'
+                            ? { ...voiceLeading, enabled: false }
+                            : { ...voiceLeading, enabled: true, voicing: value as VoicingStyle })
+                        }}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                      >
+                        <option value="off">Off (root position)</option>
+                        {(Object.keys(VOICING_LABELS) as VoicingStyle[]).map((style) => (
+                          <option key={style} value={style}>{VOICING_LABELS[style]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="voicing-lowest" className="block text-sm font-medium mb-2">
+                        Lowest note
+                      </label>
+                      <select
+                        id="voicing-lowest"
+                        value={voiceLeading.lowest}
+                        onChange={(e) => updateVoiceLeading({ ...voiceLeading, lowest: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                      >
+                        {VOICING_RANGE_NOTES.filter((midi) => midi + 12 <= voiceLeading.highest).map((midi) => (
+                          <option key={midi} value={midi}>{Note.fromMidi(midi)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="voicing-highest" className="block text-sm font-medium mb-2">
+                        Highest note
+                      </label>
+                      <select
+                        id="voicing-highest"
+                        value={voiceLeading.highest}
+                        onChange={(e) => updateVoiceLeading({ ...voiceLeading, highest: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                      >
+                        {VOICING_RANGE_NOTES.filter((midi) => midi - 12 >= voiceLeading.lowest).map((midi) => (
+                          <option key={midi} value={midi}>{Note.fromMidi(midi)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">Picks inversions that move least from the last chord, within the range</p>
+                  
+                  {/* Tuning */}
+                  <TuningControls tuning={tuning} onChange={setTuning} onDebug={addDebugEvent} />
+                  
+                  {/* Harmonic Journey */}
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <input
+                        type="checkbox"
+                        checked={harmonicJourney.enabled}
+                        onChange={(e) => updateHarmonicJourney({ ...harmonicJourney, enabled: e.target.checked })}
+                      />
+                      🧭 Harmonic journey (digits modulate the key)
+                    </label>
+                    {harmonicJourney.enabled && (
+                      <>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label htmlFor="journey-every" className="block text-sm font-medium mb-2">
+                              Every {harmonicJourney.every > 0 ? `${harmonicJourney.every} digits` : '(pattern only)'}
+                            </label>
+                            <input
+                              id="journey-every"
+                              type="range"
+                              min="0"
+                              max="256"
+                              step="8"
+                              value={harmonicJourney.every}
+                              onChange={(e) => updateHarmonicJourney({ ...harmonicJourney, every: Number(e.target.value) })}
+                              className="w-full"
+                            />
+                          </div>
+                          <div>
+                            <label htmlFor="journey-pattern" className="block text-sm font-medium mb-2">
+                              On pattern
+                            </label>
+                            <input
+                              id="journey-pattern"
+                              type="text"
+                              value={harmonicJourney.pattern}
+                              placeholder="e.g. 999"
+                              maxLength={8}
+                              onChange={(e) => updateHarmonicJourney({
+                                ...harmonicJourney,
+                                pattern: e.target.value.replace(/[^0-9a-z]/gi, '').toUpperCase(),
+                              })}
+                              className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm font-mono"
+                            />
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                          {(Object.keys(JOURNEY_MOVE_LABELS) as JourneyMove[]).map((move) => (
+                            <label key={move} className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={harmonicJourney.moves.includes(move)}
+                                onChange={() => toggleJourneyMove(move)}
+                              />
+                              {JOURNEY_MOVE_LABELS[move]}
+                            </label>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          The digit landing a modulation picks the move; playback starts from the selected key. Now in {describeKeyCenter(keyCenter)}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                </div>
+                
+                <div className="space-y-2 border-t pt-4">
+                  <h4 className="text-lg font-semibold mb-3">✨ Patterns</h4>
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={patternDetection.enabled}
+                      onChange={(e) => updatePatternDetection({ ...patternDetection, enabled: e.target.checked })}
+                    />
+                    Detect patterns in the digits and highlight them
+                  </label>
+                  {patternDetection.enabled && (
+                    <>
+                      {(Object.keys(PATTERN_KIND_LABELS) as PatternKind[]).map((kind) => (
+                        <div key={kind} className="grid grid-cols-3 gap-2 items-center">
+                          <span className={`text-sm ${PATTERN_HIGHLIGHT_CLASSES[kind]}`}>{PATTERN_KIND_LABELS[kind]}</span>
+                          {kind === 'custom' ? (
+                            <input
+                              type="text"
+                              aria-label="Custom substrings"
+                              value={customPatternsInput}
+                              placeholder="314159, 2718"
+                              onChange={(e) => setCustomPatternsInput(e.target.value)}
+                              onBlur={() => updatePatternDetection({
+                                ...patternDetection,
+                                custom: customPatternsInput
+                                  .split(/[\s,]+/)
+                                  .map((pattern) => pattern.replace(/[^0-9a-z]/gi, '').toUpperCase())
+                                  .filter(Boolean),
+                              })}
+                              className="p-1 border border-gray-300 rounded-md bg-white text-sm font-mono"
+                            />
+                          ) : (
+                            <input
+                              type="number"
+                              aria-label={`Shortest ${kind}`}
+                              min={kind === 'palindrome' ? 3 : 2}
+                              max={16}
+                              value={patternDetection.minLength[kind]}
+                              onChange={(e) => {
+                                const length = Number(e.target.value)
+                                if (Number.isInteger(length) && length >= 2) {
+                                  updatePatternDetection({
+                                    ...patternDetection,
+                                    minLength: { ...patternDetection.minLength, [kind]: length },
+                                  })
+                                }
+                              }}
+                              className="p-1 border border-gray-300 rounded-md bg-white text-sm"
+                            />
+                          )}
+                          <select
+                            aria-label={`Event for ${kind}`}
+                            value={patternDetection.events[kind]}
+                            onChange={(e) => updatePatternDetection({
+                              ...patternDetection,
+                              events: { ...patternDetection.events, [kind]: e.target.value as PatternEvent },
+                            })}
+                            className="p-1 border border-gray-300 rounded-md bg-white text-sm"
+                          >
+                            {(Object.keys(PATTERN_EVENT_LABELS) as PatternEvent[]).map((event) => (
+                              <option key={event} value={event}>{PATTERN_EVENT_LABELS[event]}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                      <p className="text-xs text-gray-500">
+                        Shortest length per kind, then what plays when one is found. Key changes use the harmonic journey's moves
+                      </p>
+                    </>
+                  )}
+                </div>
+                
+                <div className="space-y-2 border-t pt-4">
+                  <h4 className="text-lg font-semibold mb-3">💾 Export</h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="export-digit-count" className="block text-sm font-medium mb-2">
+                        Digits
+                      </label>
+                      <input
+                        id="export-digit-count"
+                        name="exportDigitCount"
+                        type="number"
+                        min={1}
+                        value={exportDigitCountInput}
+                        onChange={(e) => setExportDigitCountInput(e.target.value)}
+                        aria-invalid={exportCountError !== null}
+                        className={`w-full p-2 border rounded-md bg-white text-sm ${exportCountError ? 'border-red-500' : 'border-gray-300'}`}
+                      />
+                      {exportCountError && <p className="text-xs text-red-600 mt-1">{exportCountError}</p>}
+                    </div>
+                    <div>
+                      <label htmlFor="export-bit-depth" className="block text-sm font-medium mb-2">
+                        WAV bit depth
+                      </label>
+                      <select
+                        id="export-bit-depth"
+                        value={exportBitDepth}
+                        onChange={(e) => setExportBitDepth(Number(e.target.value) as WavBitDepth)}
+                        className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+                      >
+                        <option value={16}>16-bit</option>
+                        <option value={24}>24-bit</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={exportWav}
+                      disabled={isExporting || exportCountError !== null}
+                      className="px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 rounded-md text-sm"
+                    >
+                      Export WAV
+                    </button>
+                    <button
+                      onClick={exportMidi}
+                      disabled={isExporting || exportCountError !== null}
+                      className="px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 rounded-md text-sm"
+                    >
+                      Export MIDI
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {exportStatus ?? 'Renders from the start position with the current tempo, rhythm and sounds'}
+                  </p>
+                </div>
+                
+                <div className="space-y-2 border-t pt-4">
+                  <h4 className="text-lg font-semibold mb-3">🎹 MIDI Output</h4>
+                  <MidiOutputControls
+                    onSinkChange={handleMidiSinkChange}
+                    onModeChange={handleMidiOutputModeChange}
+                    onDebug={addDebugEvent}
+                  />
                 </div>
                 
-                <div className="text-sm text-gray-600 border-t pt-3">
-                  <p><strong>0:</strong> Kick Drum</p>
-                  <p><strong>1:</strong> Hi-Hat</p>
-                  <p><strong>2-9:</strong> Musical Notes (mapped to selected scale)</p>
+                <div className="space-y-2 border-t pt-4">
+                  <h4 className="text-lg font-semibold mb-3">🎛️ MIDI Input</h4>
+                  <MidiInputControls
+                    radix={radix}
+                    onDigit={handleMidiDigit}
+                    onControl={handleMidiControl}
+                    onDebug={addDebugEvent}
+                  />
+                </div>
+                
+                <div className="text-sm text-gray-600 border-t pt-3 grid grid-cols-2 gap-x-4">
+                  {radixSymbols(radix).map((symbol) => {
+                    const role = digitRole(symbol, radix, radixRoles)
+                    return role && (
+                      <p key={symbol}><strong>{symbol}:</strong> {describeRole(role)}</p>
+                    )
+                  })}
                 </div>
                 
                 <div className="text-xs text-gray-500 border-t pt-3">
-                  <p>🔢 Generating real π mathematically</p>
-                  <p>Digits generated: {piDigits.length}</p>
-                  <p>Current position: {currentDigitIndex + 1}</p>
+                  <p>🔢 Generating {DIGIT_SOURCE_LABELS[digitSource.kind]} digits</p>
+                  <p>Digits generated: {digitOffset + piDigits.length}</p>
+                  {digitProgress && (
+                    <p>Computing digits: {digitProgress.computed}/{digitProgress.target}</p>
+                  )}
+                  <p>Current position: {startPosition + currentDigitIndex - digitPrefix.length}</p>
                 </div>
                 
                 <div className="text-xs text-gray-500 border-t pt-3">
@@ -520,7 +1500,7 @@ function App() {
                   <p><kbd>P</kbd> - Settings panel</p>
                   <p><kbd>F</kbd> - Show FPS stats</p>
                   <p><kbd>D</kbd> - Debug panel</p>
-                  <p><kbd>0-9</kbd> - Manual synth trigger (debug)</p>
+                  <p><kbd>0-9</kbd> - Manual synth trigger (debug), <kbd>Shift</kbd>+letter above 9</p>
                 </div>
               </div>
             )}
@@ -538,7 +1518,7 @@ function App() {
                   <div className="p-4 space-y-3">
                     <div>
                       <label htmlFor="kick-pitch-decay" className="block text-sm font-medium mb-2">
-                        Pitch Decay: 0.05
+                        Pitch Decay: {kickPitchDecay.toFixed(2)}
                       </label>
                       <input
                         id="kick-pitch-decay"
@@ -547,12 +1527,8 @@ function App() {
                         min="0.01"
                         max="0.2"
                         step="0.01"
-                        defaultValue="0.05"
-                        onChange={(e) => {
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setKickPitchDecay(Number(e.target.value))
-                          }
-                        }}
+                        value={kickPitchDecay}
+                        onChange={(e) => updateKickPitchDecay(Number(e.target.value))}
                         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                       />
                       <div className="text-xs text-gray-500 mt-1">
@@ -573,9 +1549,7 @@ function App() {
                         step="1"
                         defaultValue="10"
                         onChange={(e) => {
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setKickOctaves(Number(e.target.value))
-                          }
+                          audioEngine.current.setKickOctaves(Number(e.target.value))
                         }}
                         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                       />
@@ -605,9 +1579,7 @@ function App() {
                         step="10"
                         defaultValue="300"
                         onChange={(e) => {
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setHihatResonance(Number(e.target.value))
-                          }
+                          audioEngine.current.setHihatResonance(Number(e.target.value))
                         }}
                         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                       />
@@ -618,7 +1590,7 @@ function App() {
 
                     <div>
                       <label htmlFor="hihat-frequency" className="block text-sm font-medium mb-2">
-                        Frequency: 200Hz
+                        Frequency: {Math.round(hihatFrequency)}Hz
                       </label>
                       <input
                         id="hihat-frequency"
@@ -627,12 +1599,8 @@ function App() {
                         min="100"
                         max="500"
                         step="5"
-                        defaultValue="200"
-                        onChange={(e) => {
-                          if (audioEngine.current.initialized) {
-                            audioEngine.current.setHihatFrequency(Number(e.target.value))
-                          }
-                        }}
+                        value={hihatFrequency}
+                        onChange={(e) => updateHihatFrequency(Number(e.target.value))}
                         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                       />
                       <div className="text-xs text-gray-500 mt-1">
@@ -641,6 +1609,53 @@ function App() {
                     </div>
                   </div>
                 </details>
+                
+                {/* Modifiers - what 0/1 do to the melody after them */}
+                <details open className="border border-gray-200 rounded-lg">
+                  <summary className="px-4 py-3 bg-gray-50 cursor-pointer hover:bg-gray-100 transition-colors">
+                    <span className="font-semibold text-sm">🎛️ Modifiers (0 / 1)</span>
+                  </summary>
+                  <div className="p-4 space-y-3">
+                    {(Object.keys(MODIFIER_TRIGGER_LABELS) as ModifierTrigger[]).map((trigger) => (
+                      <div key={trigger} className="flex items-center justify-between gap-4">
+                        <label htmlFor={`modifier-${trigger}`} className="text-sm font-medium">
+                          {MODIFIER_TRIGGER_LABELS[trigger]}
+                        </label>
+                        <select
+                          id={`modifier-${trigger}`}
+                          value={modifiers.effects[trigger]}
+                          onChange={(e) => updateModifiers({
+                            ...modifiers,
+                            effects: { ...modifiers.effects, [trigger]: e.target.value as ModifierEffect },
+                          })}
+                          className="p-2 border border-gray-300 rounded-md bg-white text-sm"
+                        >
+                          {(Object.keys(MODIFIER_EFFECT_LABELS) as ModifierEffect[]).map((effect) => (
+                            <option key={effect} value={effect}>{MODIFIER_EFFECT_LABELS[effect]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                    <div>
+                      <label htmlFor="modifier-span" className="block text-sm font-medium mb-2">
+                        Notes affected: {modifiers.span}
+                      </label>
+                      <input
+                        id="modifier-span"
+                        type="range"
+                        min="1"
+                        max="16"
+                        step="1"
+                        value={modifiers.span}
+                        onChange={(e) => updateModifiers({ ...modifiers, span: Number(e.target.value) })}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                      />
+                      <div className="text-xs text-gray-500 mt-1">
+                        How many melody notes an octave or inversion modifier lasts; filter sweeps run on their own
+                      </div>
+                    </div>
+                  </div>
+                </details>
               </div>
             )}
 
@@ -648,7 +1663,7 @@ function App() {
             {activeTab === 'dark' && (
               <div className="space-y-4">
                 <h3 className="text-xl font-bold mb-4">🌙 Dark Theme</h3>
-                <p className="text-sm text-gray-600 mb-4">Controls for dark melody (2-9) and kick drum reverb</p>
+                <p className="text-sm text-gray-600 mb-4">Controls for dark melody (2-9) and kick drum effects</p>
                 
                 {/* Synth Section */}
                 <details open className="border border-gray-800 rounded-lg">
@@ -658,26 +1673,30 @@ function App() {
                   <div className="p-4 bg-gray-50">
                     <SynthControls
                       synthType="dark"
-                      onEnvelopeChange={(envelope) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setDarkSynthEnvelope(envelope)
-                        }
-                      }}
+                      envelope={synthEnvelopes.dark}
+                      detune={synthDetunes.dark}
+                      onEnvelopeChange={(envelope) => updateSynthEnvelope('dark', envelope)}
                       onOscillatorChange={(oscillator) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setDarkSynthOscillator(oscillator)
-                        }
+                        audioEngine.current.setDarkSynthOscillator(oscillator)
                       }}
                       onPortamentoChange={(portamento) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setDarkSynthPortamento(portamento)
-                        }
-                      }}
-                      onDetuneChange={(detune) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setDarkSynthDetune(detune)
-                        }
+                        audioEngine.current.setDarkSynthPortamento(portamento)
                       }}
+                      onDetuneChange={(detune) => updateSynthDetune('dark', detune)}
+                    />
+                  </div>
+                </details>
+
+                {/* Effects Rack Section */}
+                <details open className="border border-gray-800 rounded-lg">
+                  <summary className="px-4 py-3 bg-gray-800 text-white cursor-pointer hover:bg-gray-700 transition-colors">
+                    <span className="font-semibold text-sm">🎚️ Effects Rack</span>
+                  </summary>
+                  <div className="p-4 bg-gray-50">
+                    <EffectsRackControls
+                      theme="dark"
+                      settings={darkEffectsRack}
+                      onChange={(settings) => { setDarkEffectsRack(settings); audioEngine.current.setDarkEffectsRack(settings) }}
                     />
                   </div>
                 </details>
@@ -688,68 +1707,11 @@ function App() {
                     <span className="font-semibold text-sm">🌊 Reverb</span>
                   </summary>
                   <div className="p-4 space-y-3 bg-gray-50">
-                    <div>
-                      <label htmlFor="dark-reverb-decay" className="block text-sm font-medium mb-1">
-                        Decay Time: {darkReverbDecay.toFixed(1)}s
-                      </label>
-                      <input id="dark-reverb-decay" type="range" min="0.1" max="10" step="0.1" value={darkReverbDecay}
-                        onChange={(e) => { const val = Number(e.target.value); setDarkReverbDecay(val); if (audioEngine.current.initialized) audioEngine.current.setDarkReverbDecay(val); }}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="dark-reverb-wet" className="block text-sm font-medium mb-1">
-                        Wet/Dry Mix: {darkReverbWet}%
-                      </label>
-                      <input id="dark-reverb-wet" type="range" min="0" max="100" step="1" value={darkReverbWet}
-                        onChange={(e) => { const val = Number(e.target.value); setDarkReverbWet(val); if (audioEngine.current.initialized) audioEngine.current.setDarkReverbWet(val); }}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="dark-reverb-predelay" className="block text-sm font-medium mb-1">
-                        Pre-delay: {darkReverbPreDelay}ms
-                      </label>
-                      <input id="dark-reverb-predelay" type="range" min="0" max="200" step="1" value={darkReverbPreDelay}
-                        onChange={(e) => { const val = Number(e.target.value); setDarkReverbPreDelay(val); if (audioEngine.current.initialized) audioEngine.current.setDarkReverbPreDelay(val); }}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="dark-reverb-roomsize" className="block text-sm font-medium mb-1">
-                        Room Size: {darkReverbRoomSize.toFixed(1)}
-                      </label>
-                      <input id="dark-reverb-roomsize" type="range" min="0.5" max="10.0" step="0.1" value={darkReverbRoomSize}
-                        onChange={(e) => { const val = Number(e.target.value); setDarkReverbRoomSize(val); if (audioEngine.current.initialized) audioEngine.current.setDarkReverbRoomSize(val); }}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="dark-reverb-damping" className="block text-sm font-medium mb-1">
-                        Damping: {darkReverbDamping}Hz
-                      </label>
-                      <input id="dark-reverb-damping" type="range" min="0" max="8000" step="100" value={darkReverbDamping}
-                        onChange={(e) => { const val = Number(e.target.value); setDarkReverbDamping(val); if (audioEngine.current.initialized) audioEngine.current.setDarkReverbDamping(val); }}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="dark-reverb-earlylate" className="block text-sm font-medium mb-1">
-                        Early/Late Balance: {darkReverbEarlyLate}%
-                      </label>
-                      <input id="dark-reverb-earlylate" type="range" min="0" max="100" step="1" value={darkReverbEarlyLate}
-                        onChange={(e) => { const val = Number(e.target.value); setDarkReverbEarlyLate(val); if (audioEngine.current.initialized) audioEngine.current.setDarkReverbEarlyLateBalance(val); }}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="dark-reverb-width" className="block text-sm font-medium mb-1">
-                        Stereo Width: {darkReverbStereoWidth}%
-                      </label>
-                      <input id="dark-reverb-width" type="range" min="0" max="200" step="1" value={darkReverbStereoWidth}
-                        onChange={(e) => { const val = Number(e.target.value); setDarkReverbStereoWidth(val); if (audioEngine.current.initialized) audioEngine.current.setDarkReverbStereoWidth(val); }}
-                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
+                    <ReverbControls
+                      id="dark"
+                      settings={reverbs.dark}
+                      onChange={(changes) => updateReverb('dark', changes)}
+                    />
                   </div>
                 </details>
               </div>
@@ -759,7 +1721,7 @@ function App() {
             {activeTab === 'light' && (
               <div className="space-y-4">
                 <h3 className="text-xl font-bold mb-4">☀️ Light Theme</h3>
-                <p className="text-sm text-gray-600 mb-4">Controls for light melody (2-9) and hi-hat reverb</p>
+                <p className="text-sm text-gray-600 mb-4">Controls for light melody (2-9) and hi-hat effects</p>
                 
                 {/* Synth Section */}
                 <details open className="border border-blue-200 rounded-lg">
@@ -769,26 +1731,30 @@ function App() {
                   <div className="p-4 bg-blue-50">
                     <SynthControls
                       synthType="light"
-                      onEnvelopeChange={(envelope) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setLightSynthEnvelope(envelope)
-                        }
-                      }}
+                      envelope={synthEnvelopes.light}
+                      detune={synthDetunes.light}
+                      onEnvelopeChange={(envelope) => updateSynthEnvelope('light', envelope)}
                       onOscillatorChange={(oscillator) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setLightSynthOscillator(oscillator)
-                        }
+                        audioEngine.current.setLightSynthOscillator(oscillator)
                       }}
                       onPortamentoChange={(portamento) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setLightSynthPortamento(portamento)
-                        }
-                      }}
-                      onDetuneChange={(detune) => {
-                        if (audioEngine.current.initialized) {
-                          audioEngine.current.setLightSynthDetune(detune)
-                        }
+                        audioEngine.current.setLightSynthPortamento(portamento)
                       }}
+                      onDetuneChange={(detune) => updateSynthDetune('light', detune)}
+                    />
+                  </div>
+                </details>
+
+                {/* Effects Rack Section */}
+                <details open className="border border-blue-200 rounded-lg">
+                  <summary className="px-4 py-3 bg-blue-100 text-blue-900 cursor-pointer hover:bg-blue-200 transition-colors">
+                    <span className="font-semibold text-sm">🎚️ Effects Rack</span>
+                  </summary>
+                  <div className="p-4 bg-blue-50">
+                    <EffectsRackControls
+                      theme="light"
+                      settings={lightEffectsRack}
+                      onChange={(settings) => { setLightEffectsRack(settings); audioEngine.current.setLightEffectsRack(settings) }}
                     />
                   </div>
                 </details>
@@ -799,74 +1765,37 @@ function App() {
                     <span className="font-semibold text-sm">🌊 Reverb</span>
                   </summary>
                   <div className="p-4 space-y-3 bg-blue-50">
-                    <div>
-                      <label htmlFor="light-reverb-decay" className="block text-sm font-medium mb-1">
-                        Decay Time: {lightReverbDecay.toFixed(1)}s
-                      </label>
-                      <input id="light-reverb-decay" type="range" min="0.1" max="10" step="0.1" value={lightReverbDecay}
-                        onChange={(e) => { const val = Number(e.target.value); setLightReverbDecay(val); if (audioEngine.current.initialized) audioEngine.current.setLightReverbDecay(val); }}
-                        className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="light-reverb-wet" className="block text-sm font-medium mb-1">
-                        Wet/Dry Mix: {lightReverbWet}%
-                      </label>
-                      <input id="light-reverb-wet" type="range" min="0" max="100" step="1" value={lightReverbWet}
-                        onChange={(e) => { const val = Number(e.target.value); setLightReverbWet(val); if (audioEngine.current.initialized) audioEngine.current.setLightReverbWet(val); }}
-                        className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="light-reverb-predelay" className="block text-sm font-medium mb-1">
-                        Pre-delay: {lightReverbPreDelay}ms
-                      </label>
-                      <input id="light-reverb-predelay" type="range" min="0" max="200" step="1" value={lightReverbPreDelay}
-                        onChange={(e) => { const val = Number(e.target.value); setLightReverbPreDelay(val); if (audioEngine.current.initialized) audioEngine.current.setLightReverbPreDelay(val); }}
-                        className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="light-reverb-roomsize" className="block text-sm font-medium mb-1">
-                        Room Size: {lightReverbRoomSize.toFixed(1)}
-                      </label>
-                      <input id="light-reverb-roomsize" type="range" min="0.5" max="10.0" step="0.1" value={lightReverbRoomSize}
-                        onChange={(e) => { const val = Number(e.target.value); setLightReverbRoomSize(val); if (audioEngine.current.initialized) audioEngine.current.setLightReverbRoomSize(val); }}
-                        className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="light-reverb-damping" className="block text-sm font-medium mb-1">
-                        Damping: {lightReverbDamping}Hz
-                      </label>
-                      <input id="light-reverb-damping" type="range" min="0" max="8000" step="100" value={lightReverbDamping}
-                        onChange={(e) => { const val = Number(e.target.value); setLightReverbDamping(val); if (audioEngine.current.initialized) audioEngine.current.setLightReverbDamping(val); }}
-                        className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="light-reverb-earlylate" className="block text-sm font-medium mb-1">
-                        Early/Late Balance: {lightReverbEarlyLate}%
-                      </label>
-                      <input id="light-reverb-earlylate" type="range" min="0" max="100" step="1" value={lightReverbEarlyLate}
-                        onChange={(e) => { const val = Number(e.target.value); setLightReverbEarlyLate(val); if (audioEngine.current.initialized) audioEngine.current.setLightReverbEarlyLateBalance(val); }}
-                        className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
-
-                    <div>
-                      <label htmlFor="light-reverb-width" className="block text-sm font-medium mb-1">
-                        Stereo Width: {lightReverbStereoWidth}%
-                      </label>
-                      <input id="light-reverb-width" type="range" min="0" max="200" step="1" value={lightReverbStereoWidth}
-                        onChange={(e) => { const val = Number(e.target.value); setLightReverbStereoWidth(val); if (audioEngine.current.initialized) audioEngine.current.setLightReverbStereoWidth(val); }}
-                        className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer" />
-                    </div>
+                    <ReverbControls
+                      id="light"
+                      settings={reverbs.light}
+                      onChange={(changes) => updateReverb('light', changes)}
+                    />
                   </div>
                 </details>
               </div>
             )}
 
             {/* Debug Tab */}
+            {activeTab === 'kit' && (
+              <div className="space-y-4">
+                <h3 className="text-xl font-bold mb-4">Instrument Kit</h3>
+                <InstrumentControls kit={instrumentKit} radix={radix} radixRoles={radixRoles} onChange={setInstrumentKit} />
+              </div>
+            )}
+
+            {activeTab === 'mixer' && (
+              <div className="space-y-4">
+                <h3 className="text-xl font-bold mb-4">🎛️ Mixer</h3>
+                <LevelMeter read={readMeter} />
+                <MixerControls
+                  strips={channelStrips}
+                  master={masterBus}
+                  onStripChange={updateChannelStrip}
+                  onMasterChange={updateMasterBus}
+                />
+              </div>
+            )}
+
             {activeTab === 'debug' && (
               <div className="space-y-4">
                 <h3 className="text-xl font-bold mb-4">🎵 Audio Debug</h3>
@@ -0,0 +1,88 @@
+import {
+  MAX_ROLE_STEP,
+  RADIX_MAPPINGS,
+  radixSymbols,
+  type DigitRole,
+  type RadixRoles,
+  type SupportedRadix,
+} from '../lib/radixMapping'
+
+interface DigitRoleControlsProps {
+  radix: SupportedRadix
+  roles: RadixRoles
+  onChange: (roles: RadixRoles) => void
+}
+
+const ROLE_TYPE_LABELS: Record<DigitRole['type'], string> = {
+  kick: 'Kick drum',
+  hihat: 'Hi-hat',
+  degree: 'Scale degree',
+  chromatic: 'Semitones up',
+}
+
+// A role of another type, keeping the digit's step where there is one
+function withType(role: DigitRole, type: DigitRole['type'], value: number): DigitRole {
+  const step = role.type === 'degree' ? role.degree : role.type === 'chromatic' ? role.semitone : Math.max(0, value - 2)
+  switch (type) {
+    case 'kick':
+    case 'hihat':
+      return { type }
+    case 'degree':
+      return { type, degree: step }
+    case 'chromatic':
+      return { type, semitone: step }
+  }
+}
+
+// What each digit of the current base plays, with the base's defaults a click away
+export function DigitRoleControls({ radix, roles, onChange }: DigitRoleControlsProps) {
+  const setRole = (value: number, role: DigitRole) => {
+    onChange({ ...roles, [radix]: roles[radix].map((current, index) => (index === value ? role : current)) })
+  }
+
+  return (
+    <div className="space-y-2">
+      {radixSymbols(radix).map((symbol, value) => {
+        const role = roles[radix][value]
+        const step = role.type === 'degree' ? role.degree : role.type === 'chromatic' ? role.semitone : null
+        return (
+          <div key={symbol} className="grid grid-cols-[1.5rem_1fr_4rem] gap-2 items-center text-sm">
+            <strong>{symbol}</strong>
+            <select
+              aria-label={`Role for ${symbol}`}
+              value={role.type}
+              onChange={(e) => setRole(value, withType(role, e.target.value as DigitRole['type'], value))}
+              className="p-1 border border-gray-300 rounded-md bg-white"
+            >
+              {(Object.keys(ROLE_TYPE_LABELS) as DigitRole['type'][]).map((type) => (
+                <option key={type} value={type}>{ROLE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            {step !== null && (
+              <input
+                type="number"
+                aria-label={`${role.type === 'degree' ? 'Scale degree' : 'Semitones'} for ${symbol}`}
+                min={role.type === 'degree' ? 1 : 0}
+                max={role.type === 'degree' ? MAX_ROLE_STEP + 1 : MAX_ROLE_STEP}
+                // Degrees show from 1, as in the role descriptions
+                value={role.type === 'degree' ? step + 1 : step}
+                onChange={(e) => {
+                  const entered = Math.round(Number(e.target.value)) - (role.type === 'degree' ? 1 : 0)
+                  const clamped = Math.max(0, Math.min(MAX_ROLE_STEP, entered))
+                  setRole(value, role.type === 'degree' ? { type: 'degree', degree: clamped } : { type: 'chromatic', semitone: clamped })
+                }}
+                className="p-1 border border-gray-300 rounded-md"
+              />
+            )}
+          </div>
+        )
+      })}
+      <button
+        onClick={() => onChange({ ...roles, [radix]: RADIX_MAPPINGS[radix].roles })}
+        className="px-3 py-1 bg-gray-200 hover:bg-gray-300 rounded-md text-xs"
+      >
+        Reset base {radix} to defaults
+      </button>
+    </div>
+  )
+}
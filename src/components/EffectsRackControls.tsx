@@ -0,0 +1,164 @@
+import { EFFECT_LABELS, type EffectType, type EffectsRackSettings, type RackFilterType } from '../lib/effectsRack'
+
+interface EffectsRackControlsProps {
+  theme: 'dark' | 'light'
+  settings: EffectsRackSettings
+  onChange: (settings: EffectsRackSettings) => void
+}
+
+const DELAY_TIMES = ['32n', '16n', '16n.', '8t', '8n', '8n.', '4n', '4n.']
+
+interface SliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+function Slider({ label, value, min, max, step, onChange }: SliderProps) {
+  return (
+    <label className="block text-sm">
+      {label}
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+    </label>
+  )
+}
+
+export function EffectsRackControls({ theme, settings, onChange }: EffectsRackControlsProps) {
+  const move = (index: number, offset: number) => {
+    const order = [...settings.order]
+    ;[order[index], order[index + offset]] = [order[index + offset], order[index]]
+    onChange({ ...settings, order })
+  }
+
+  const toggleBypass = (type: EffectType) => {
+    onChange({
+      ...settings,
+      bypassed: settings.bypassed.includes(type)
+        ? settings.bypassed.filter((bypassed) => bypassed !== type)
+        : [...settings.bypassed, type],
+    })
+  }
+
+  const update = <K extends Exclude<EffectType, 'reverb'>>(type: K, changes: Partial<EffectsRackSettings[K]>) => {
+    onChange({ ...settings, [type]: { ...settings[type], ...changes } })
+  }
+
+  const parameters = (type: EffectType) => {
+    switch (type) {
+      case 'filter':
+        return (
+          <>
+            <select
+              aria-label={`${theme} filter type`}
+              value={settings.filter.type}
+              onChange={(e) => update('filter', { type: e.target.value as RackFilterType })}
+              className="w-full p-1 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              <option value="lowpass">Lowpass</option>
+              <option value="highpass">Highpass</option>
+              <option value="bandpass">Bandpass</option>
+            </select>
+            <Slider label={`Cutoff: ${settings.filter.frequency}Hz`} value={settings.filter.frequency} min={20} max={18000} step={10}
+              onChange={(frequency) => update('filter', { frequency })} />
+            <Slider label={`Resonance (Q): ${settings.filter.Q}`} value={settings.filter.Q} min={0.1} max={20} step={0.1}
+              onChange={(Q) => update('filter', { Q })} />
+          </>
+        )
+      case 'distortion':
+        return (
+          <>
+            <Slider label={`Amount: ${Math.round(settings.distortion.amount * 100)}%`} value={settings.distortion.amount} min={0} max={1} step={0.01}
+              onChange={(amount) => update('distortion', { amount })} />
+            <Slider label={`Wet: ${Math.round(settings.distortion.wet * 100)}%`} value={settings.distortion.wet} min={0} max={1} step={0.01}
+              onChange={(wet) => update('distortion', { wet })} />
+          </>
+        )
+      case 'chorus':
+        return (
+          <>
+            <Slider label={`Rate: ${settings.chorus.frequency}Hz`} value={settings.chorus.frequency} min={0.1} max={10} step={0.1}
+              onChange={(frequency) => update('chorus', { frequency })} />
+            <Slider label={`Delay: ${settings.chorus.delayTime}ms`} value={settings.chorus.delayTime} min={2} max={20} step={0.5}
+              onChange={(delayTime) => update('chorus', { delayTime })} />
+            <Slider label={`Depth: ${Math.round(settings.chorus.depth * 100)}%`} value={settings.chorus.depth} min={0} max={1} step={0.01}
+              onChange={(depth) => update('chorus', { depth })} />
+            <Slider label={`Wet: ${Math.round(settings.chorus.wet * 100)}%`} value={settings.chorus.wet} min={0} max={1} step={0.01}
+              onChange={(wet) => update('chorus', { wet })} />
+          </>
+        )
+      case 'delay':
+        return (
+          <>
+            <select
+              aria-label={`${theme} delay time`}
+              value={String(settings.delay.delayTime)}
+              onChange={(e) => update('delay', { delayTime: e.target.value })}
+              className="w-full p-1 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              {DELAY_TIMES.map((time) => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
+            <Slider label={`Feedback: ${Math.round(settings.delay.feedback * 100)}%`} value={settings.delay.feedback} min={0} max={0.9} step={0.01}
+              onChange={(feedback) => update('delay', { feedback })} />
+            <Slider label={`Wet: ${Math.round(settings.delay.wet * 100)}%`} value={settings.delay.wet} min={0} max={1} step={0.01}
+              onChange={(wet) => update('delay', { wet })} />
+          </>
+        )
+      case 'reverb':
+        return <p className="text-xs text-gray-500">Set in the Reverb section below</p>
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {settings.order.map((type, index) => {
+        const bypassed = settings.bypassed.includes(type)
+        return (
+          <div key={type} className={`border border-gray-200 rounded-md p-2 space-y-1 ${bypassed ? 'opacity-60' : ''}`}>
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                aria-label={`${EFFECT_LABELS[type]} on`}
+                checked={!bypassed}
+                onChange={() => toggleBypass(type)}
+              />
+              <span className="flex-1 font-medium">{index + 1}. {EFFECT_LABELS[type]}</span>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${EFFECT_LABELS[type]} earlier`}
+                className="px-2 bg-gray-200 hover:bg-gray-300 rounded disabled:opacity-40"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === settings.order.length - 1}
+                aria-label={`Move ${EFFECT_LABELS[type]} later`}
+                className="px-2 bg-gray-200 hover:bg-gray-300 rounded disabled:opacity-40"
+              >
+                ↓
+              </button>
+            </div>
+            {!bypassed && parameters(type)}
+          </div>
+        )
+      })}
+      <p className="text-xs text-gray-500">
+        Runs top to bottom; unticked effects are bypassed. Delay times are note values at the current tempo
+      </p>
+    </div>
+  )
+}
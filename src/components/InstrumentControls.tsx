@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react'
+import {
+  BUILT_IN_INSTRUMENTS,
+  INSTRUMENT_TYPE_LABELS,
+  createInstrumentConfig,
+  type BuiltInInstrumentId,
+  type DigitRoute,
+  type InstrumentConfig,
+  type InstrumentEnvelope,
+  type InstrumentKit,
+  type InstrumentType,
+} from '../lib/instruments'
+import { isPitchedDigit, radixSymbols, type RadixRoles } from '../lib/radixMapping'
+import { loadSamplePacks, removeSampleFile, storeSampleFile, type SampleFile, type SamplePack } from '../lib/samples'
+
+interface InstrumentControlsProps {
+  kit: InstrumentKit
+  radix: number
+  radixRoles: RadixRoles
+  onChange: (kit: InstrumentKit) => void
+}
+
+const ENVELOPE_RANGES: Record<keyof InstrumentEnvelope, { max: number; step: number }> = {
+  attack: { max: 2, step: 0.001 },
+  decay: { max: 2, step: 0.01 },
+  sustain: { max: 1, step: 0.01 },
+  release: { max: 5, step: 0.01 },
+}
+
+// Types whose harmonicity/modulation index mean something
+const HARMONIC_TYPES: InstrumentType[] = ['fm', 'am', 'metal']
+
+// Samplers play recordings as they are, so only the fades apply
+const SAMPLER_STAGES: (keyof InstrumentEnvelope)[] = ['attack', 'release']
+
+export function InstrumentControls({ kit, radix, radixRoles, onChange }: InstrumentControlsProps) {
+  const [newType, setNewType] = useState<InstrumentType>('fm')
+  const [packs, setPacks] = useState<SamplePack[]>([])
+  const [sampleError, setSampleError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSamplePacks()
+      .then(setPacks)
+      .catch((err) => setSampleError(`Sample packs: ${err instanceof Error ? err.message : err}`))
+  }, [])
+
+  const updateInstrument = (id: string, changes: Partial<InstrumentConfig>) => {
+    onChange({
+      ...kit,
+      instruments: kit.instruments.map((instrument) => (instrument.id === id ? { ...instrument, ...changes } : instrument)),
+    })
+  }
+
+  // Routes to a removed instrument go back to their digit's role
+  const removeInstrument = (id: string) => {
+    onChange({
+      instruments: kit.instruments.filter((instrument) => instrument.id !== id),
+      routes: Object.fromEntries(Object.entries(kit.routes).filter(([, route]) => route.instrumentId !== id)),
+    })
+  }
+
+  const sampleFiles = (instrument: InstrumentConfig): SampleFile[] =>
+    instrument.samples?.kind === 'files' ? instrument.samples.files : []
+
+  // Dropped files are stored for offline use, then added with the pitch read from their name
+  const addSampleFiles = async (instrument: InstrumentConfig, files: File[]) => {
+    try {
+      const stored = await Promise.all(files.map(storeSampleFile))
+      const kept = sampleFiles(instrument).filter((file) => !stored.some((added) => added.name === file.name))
+      updateInstrument(instrument.id, { samples: { kind: 'files', files: [...kept, ...stored] } })
+      setSampleError(null)
+    } catch (err) {
+      setSampleError(`Couldn't store samples: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  const removeSample = (instrument: InstrumentConfig, name: string) => {
+    removeSampleFile(name).catch(() => {})
+    updateInstrument(instrument.id, {
+      samples: { kind: 'files', files: sampleFiles(instrument).filter((file) => file.name !== name) },
+    })
+  }
+
+  const setSampleNote = (instrument: InstrumentConfig, name: string, note: string) => {
+    updateInstrument(instrument.id, {
+      samples: { kind: 'files', files: sampleFiles(instrument).map((file) => (file.name === name ? { ...file, note } : file)) },
+    })
+  }
+
+  const setRoute = (digit: string, route: DigitRoute | null) => {
+    const routes = { ...kit.routes }
+    if (route) routes[digit] = route
+    else delete routes[digit]
+    onChange({ ...kit, routes })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h4 className="font-semibold text-sm">Instruments</h4>
+        {kit.instruments.length === 0 && (
+          <p className="text-xs text-gray-500">No instruments yet - add one, then route digits to it below</p>
+        )}
+        {kit.instruments.map((instrument) => (
+          <details key={instrument.id} className="border border-gray-200 rounded-lg">
+            <summary className="px-3 py-2 bg-gray-50 cursor-pointer text-sm flex items-center justify-between">
+              <span className="font-medium">{instrument.name}</span>
+              <span className="text-xs text-gray-500">{INSTRUMENT_TYPE_LABELS[instrument.type]}</span>
+            </summary>
+            <div className="p-3 space-y-2 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  aria-label="Instrument name"
+                  value={instrument.name}
+                  onChange={(e) => updateInstrument(instrument.id, { name: e.target.value })}
+                  className="p-1 border border-gray-300 rounded-md"
+                />
+                <select
+                  aria-label="Reverb"
+                  value={instrument.bus}
+                  onChange={(e) => updateInstrument(instrument.id, { bus: e.target.value as InstrumentConfig['bus'] })}
+                  className="p-1 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="dark">Dark reverb</option>
+                  <option value="light">Light reverb</option>
+                </select>
+              </div>
+              <label className="block">
+                Volume: {instrument.volume}dB
+                <input
+                  type="range"
+                  min="-40"
+                  max="0"
+                  step="1"
+                  value={instrument.volume}
+                  onChange={(e) => updateInstrument(instrument.id, { volume: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+              {instrument.type === 'sampler' && (
+                <div className="space-y-2">
+                  <select
+                    aria-label="Samples"
+                    value={instrument.samples?.kind === 'pack' ? instrument.samples.packId : ''}
+                    onChange={(e) => updateInstrument(instrument.id, {
+                      samples: e.target.value
+                        ? { kind: 'pack', packId: e.target.value }
+                        : { kind: 'files', files: sampleFiles(instrument) },
+                    })}
+                    className="w-full p-1 border border-gray-300 rounded-md bg-white"
+                  >
+                    {packs.map((pack) => (
+                      <option key={pack.id} value={pack.id}>{pack.name}</option>
+                    ))}
+                    <option value="">My files (WAV/OGG)</option>
+                  </select>
+                  {instrument.samples?.kind === 'files' && (
+                    <>
+                      <input
+                        type="file"
+                        accept=".wav,.ogg,audio/wav,audio/ogg"
+                        multiple
+                        aria-label="Add samples"
+                        onChange={(e) => {
+                          const files = Array.from(e.target.files ?? [])
+                          if (files.length > 0) addSampleFiles(instrument, files)
+                          e.target.value = ''
+                        }}
+                        className="w-full text-xs"
+                      />
+                      {instrument.samples.files.map((file) => (
+                        <div key={file.name} className="grid grid-cols-[1fr_4rem_auto] gap-2 items-center text-xs">
+                          <span className="truncate" title={file.name}>{file.name}</span>
+                          <input
+                            type="text"
+                            aria-label={`Pitch of ${file.name}`}
+                            value={file.note}
+                            onChange={(e) => setSampleNote(instrument, file.name, e.target.value)}
+                            className="p-1 border border-gray-300 rounded-md font-mono"
+                          />
+                          <button onClick={() => removeSample(instrument, file.name)} className="text-red-600 hover:underline">
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <p className="text-xs text-gray-500">
+                        Each file plays at the pitch typed next to it (read from names like "piano_C4.wav"); other notes are repitched from the nearest one
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+              {(instrument.type === 'sampler' ? SAMPLER_STAGES : Object.keys(ENVELOPE_RANGES) as (keyof InstrumentEnvelope)[]).map((stage) => (
+                <label key={stage} className="block capitalize">
+                  {stage}: {instrument.envelope[stage]}
+                  <input
+                    type="range"
+                    min={stage === 'sustain' ? 0 : ENVELOPE_RANGES[stage].step}
+                    max={ENVELOPE_RANGES[stage].max}
+                    step={ENVELOPE_RANGES[stage].step}
+                    value={instrument.envelope[stage]}
+                    onChange={(e) => updateInstrument(instrument.id, {
+                      envelope: { ...instrument.envelope, [stage]: Number(e.target.value) },
+                    })}
+                    className="w-full"
+                  />
+                </label>
+              ))}
+              {HARMONIC_TYPES.includes(instrument.type) && (
+                <>
+                  <label className="block">
+                    Harmonicity: {instrument.harmonicity}
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="12"
+                      step="0.1"
+                      value={instrument.harmonicity}
+                      onChange={(e) => updateInstrument(instrument.id, { harmonicity: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </label>
+                  {instrument.type !== 'am' && (
+                    <label className="block">
+                      Modulation index: {instrument.modulationIndex}
+                      <input
+                        type="range"
+                        min="0"
+                        max="64"
+                        step="1"
+                        value={instrument.modulationIndex}
+                        onChange={(e) => updateInstrument(instrument.id, { modulationIndex: Number(e.target.value) })}
+                        className="w-full"
+                      />
+                    </label>
+                  )}
+                </>
+              )}
+              <button onClick={() => removeInstrument(instrument.id)} className="text-xs text-red-600 hover:underline">
+                Remove instrument
+              </button>
+            </div>
+          </details>
+        ))}
+        <div className="flex gap-2">
+          <select
+            aria-label="New instrument type"
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as InstrumentType)}
+            className="flex-1 p-2 border border-gray-300 rounded-md bg-white text-sm"
+          >
+            {(Object.keys(INSTRUMENT_TYPE_LABELS) as InstrumentType[]).map((type) => (
+              <option key={type} value={type}>{INSTRUMENT_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange({ ...kit, instruments: [...kit.instruments, createInstrumentConfig(newType, kit)] })}
+            className="px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-sm"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {sampleError && <p className="text-xs text-red-600">{sampleError}</p>}
+
+      <div className="space-y-2">
+        <h4 className="font-semibold text-sm">Digit routing</h4>
+        {radixSymbols(radix).map((digit) => {
+          const route = kit.routes[digit]
+          const pitched = isPitchedDigit(digit, radix, radixRoles)
+          return (
+            <div key={digit} className="grid grid-cols-[1.5rem_1fr_auto_4rem] gap-2 items-center text-sm">
+              <strong>{digit}</strong>
+              <select
+                aria-label={`Instrument for ${digit}`}
+                value={route?.instrumentId ?? ''}
+                onChange={(e) => setRoute(digit, e.target.value
+                  ? { play: route?.play ?? (pitched ? 'melody' : 'hit'), note: route?.note ?? 'C3', instrumentId: e.target.value }
+                  : null)}
+                className="p-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="">Default</option>
+                {(Object.keys(BUILT_IN_INSTRUMENTS) as BuiltInInstrumentId[]).map((id) => (
+                  <option key={id} value={id}>{BUILT_IN_INSTRUMENTS[id]}</option>
+                ))}
+                {kit.instruments.map((instrument) => (
+                  <option key={instrument.id} value={instrument.id}>{instrument.name}</option>
+                ))}
+              </select>
+              {route && pitched ? (
+                <select
+                  aria-label={`How ${digit} plays`}
+                  value={route.play}
+                  onChange={(e) => setRoute(digit, { ...route, play: e.target.value as DigitRoute['play'] })}
+                  className="p-1 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="melody">Melody</option>
+                  <option value="hit">Hit</option>
+                </select>
+              ) : <span />}
+              {route && (route.play === 'hit' || !pitched) ? (
+                <input
+                  type="text"
+                  aria-label={`Note for ${digit}`}
+                  value={route.note}
+                  onChange={(e) => setRoute(digit, { ...route, note: e.target.value })}
+                  className="p-1 border border-gray-300 rounded-md font-mono"
+                />
+              ) : <span />}
+            </div>
+          )
+        })}
+        <p className="text-xs text-gray-500">
+          Routed digits play only their instrument: melody plays the digit's chord, hit plays a fixed note (e.g. C2)
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react'
+import type { MeterReading } from '../lib/masterBus'
+
+interface LevelMeterProps {
+  read: () => MeterReading | null // Polled every animation frame
+}
+
+const FLOOR_DB = -60
+
+// Bar width for a level, -60dB to 0dB
+function barWidth(db: number): string {
+  return `${Math.max(0, Math.min(1, (db - FLOOR_DB) / -FLOOR_DB)) * 100}%`
+}
+
+function formatDb(db: number): string {
+  return db <= FLOOR_DB ? '-∞' : db.toFixed(1)
+}
+
+// Master output levels. Updates the DOM directly each frame rather than
+// re-rendering, so metering doesn't cost a React render 60 times a second
+export function LevelMeter({ read }: LevelMeterProps) {
+  const peakBar = useRef<HTMLDivElement>(null)
+  const rmsBar = useRef<HTMLDivElement>(null)
+  const readout = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let frame = 0
+    let peakHold = -Infinity
+    let heldAt = 0
+    const update = (time: number) => {
+      frame = requestAnimationFrame(update)
+      const reading = read()
+      if (!reading) return
+      // Hold the peak for a second so short hits can be read
+      if (reading.peak >= peakHold || time - heldAt > 1000) {
+        peakHold = reading.peak
+        heldAt = time
+      }
+      if (peakBar.current) {
+        peakBar.current.style.width = barWidth(reading.peak)
+        peakBar.current.className = `h-full ${reading.peak > -1 ? 'bg-red-500' : reading.peak > -6 ? 'bg-yellow-400' : 'bg-green-500'}`
+      }
+      if (rmsBar.current) rmsBar.current.style.width = barWidth(reading.rms)
+      if (readout.current) {
+        readout.current.textContent =
+          `Peak ${formatDb(peakHold)} dBFS · RMS ${formatDb(reading.rms)} dBFS · ` +
+          `${formatDb(reading.lufs)} LUFS · GR ${reading.reduction.toFixed(1)} dB`
+      }
+    }
+    frame = requestAnimationFrame(update)
+    return () => cancelAnimationFrame(frame)
+  }, [read])
+
+  return (
+    <div className="space-y-1">
+      <div className="h-3 bg-gray-200 rounded overflow-hidden" title="Peak">
+        <div ref={peakBar} className="h-full bg-green-500" style={{ width: 0 }} />
+      </div>
+      <div className="h-3 bg-gray-200 rounded overflow-hidden" title="RMS">
+        <div ref={rmsBar} className="h-full bg-blue-500" style={{ width: 0 }} />
+      </div>
+      <div ref={readout} className="text-xs font-mono text-gray-700">
+        Not playing yet
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react'
+import { Note } from 'tonal'
+import {
+  MIDI_CONTROL_TARGETS,
+  MidiInputController,
+  defaultMidiMappings,
+  loadMidiMappings,
+  saveMidiMappings,
+  type MidiControlTarget,
+  type MidiLearnTarget,
+  type MidiMappings,
+} from '../lib/midiInput'
+import { radixSymbols } from '../lib/radixMapping'
+import { isWebMidiSupported, listMidiPorts, requestMidiAccess, type MidiPortInfo } from '../lib/webMidi'
+
+interface MidiInputControlsProps {
+  radix: number
+  onDigit: (digit: string, velocity: number) => void
+  onControl: (target: MidiControlTarget, value: number) => void
+  onDebug?: (message: string) => void
+}
+
+function isSameLearnTarget(a: MidiLearnTarget, b: MidiLearnTarget | null): boolean {
+  if (!b) return false
+  if (a.type === 'note') return b.type === 'note' && a.digit === b.digit
+  return b.type === 'control' && a.targetId === b.targetId
+}
+
+export function MidiInputControls({ radix, onDigit, onControl, onDebug }: MidiInputControlsProps) {
+  const [access, setAccess] = useState<MIDIAccess | null>(null)
+  const [ports, setPorts] = useState<MidiPortInfo[]>([])
+  const [portId, setPortId] = useState('')
+  const [mappings, setMappings] = useState<MidiMappings>(loadMidiMappings)
+  const [learnTarget, setLearnTarget] = useState<MidiLearnTarget | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Latest callbacks, so the controller doesn't need rebuilding when they change
+  const handlersRef = useRef({ onDigit, onControl, onDebug })
+  handlersRef.current = { onDigit, onControl, onDebug }
+
+  const controller = useRef<MidiInputController | null>(null)
+  controller.current ??= new MidiInputController(mappings, {
+    onDigit: (digit, velocity) => handlersRef.current.onDigit(digit, velocity),
+    onControl: (target, value) => handlersRef.current.onControl(target, value),
+    onMappingsChange: (learned) => {
+      setMappings(learned)
+      setLearnTarget(null)
+      handlersRef.current.onDebug?.('🎛️ MIDI mapping learned')
+    },
+  })
+
+  useEffect(() => {
+    saveMidiMappings(mappings)
+    controller.current?.setMappings(mappings)
+  }, [mappings])
+
+  useEffect(() => {
+    controller.current?.learn(learnTarget)
+  }, [learnTarget])
+
+  useEffect(() => {
+    if (!access) return
+
+    const refresh = () => setPorts(listMidiPorts(access.inputs.values()))
+    refresh()
+    access.addEventListener('statechange', refresh)
+    return () => access.removeEventListener('statechange', refresh)
+  }, [access])
+
+  useEffect(() => {
+    const input = access && portId ? access.inputs.get(portId) ?? null : null
+    controller.current?.connect(input)
+    return () => controller.current?.disconnect()
+  }, [access, portId])
+
+  const enableMidi = async () => {
+    try {
+      const midiAccess = await requestMidiAccess()
+      setAccess(midiAccess)
+      setError(null)
+      onDebug?.(`🎹 MIDI access granted: ${midiAccess.inputs.size} input(s)`)
+    } catch (err) {
+      setError(`MIDI unavailable: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  const isLearning = (target: MidiLearnTarget) => isSameLearnTarget(target, learnTarget)
+
+  const toggleLearn = (target: MidiLearnTarget) => {
+    setLearnTarget(isLearning(target) ? null : target)
+  }
+
+  const noteFor = (digit: string) => {
+    const entry = Object.entries(mappings.notes).find(([, d]) => d === digit)
+    return entry ? Note.fromMidiSharps(Number(entry[0])) : '—'
+  }
+
+  const ccFor = (targetId: string) => {
+    const entry = Object.entries(mappings.controls).find(([, id]) => id === targetId)
+    return entry ? `CC ${entry[0]}` : '—'
+  }
+
+  if (!isWebMidiSupported()) {
+    return <p className="text-xs text-gray-500">Web MIDI isn't supported in this browser</p>
+  }
+
+  if (!access) {
+    return (
+      <div className="space-y-1">
+        <button
+          onClick={enableMidi}
+          className="w-full px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-sm"
+        >
+          Enable MIDI input
+        </button>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    )
+  }
+
+  const learnButtonClass = (target: MidiLearnTarget) =>
+    `px-2 py-0.5 rounded text-xs ${isLearning(target) ? 'bg-orange-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="midi-input-port" className="block text-sm font-medium mb-2">
+          Input port
+        </label>
+        <select
+          id="midi-input-port"
+          value={portId}
+          onChange={(e) => setPortId(e.target.value)}
+          className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+        >
+          <option value="">None</option>
+          {ports.map((port) => (
+            <option key={port.id} value={port.id}>{port.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer font-medium">Notes → digits</summary>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2">
+          {radixSymbols(radix).map((digit) => (
+            <div key={digit} className="flex items-center justify-between gap-2">
+              <span><strong>{digit}</strong> ← {noteFor(digit)}</span>
+              <button onClick={() => toggleLearn({ type: 'note', digit })} className={learnButtonClass({ type: 'note', digit })}>
+                {isLearning({ type: 'note', digit }) ? 'Play a note…' : 'Learn'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </details>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer font-medium">Knobs → parameters</summary>
+        <div className="space-y-1 mt-2">
+          {MIDI_CONTROL_TARGETS.map((target) => {
+            const learn: MidiLearnTarget = { type: 'control', targetId: target.id }
+            return (
+              <div key={target.id} className="flex items-center justify-between gap-2">
+                <span>{target.label} ← {ccFor(target.id)}</span>
+                <button onClick={() => toggleLearn(learn)} className={learnButtonClass(learn)}>
+                  {isLearning(learn) ? 'Turn a knob…' : 'Learn'}
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      </details>
+
+      <button
+        onClick={() => setMappings(defaultMidiMappings())}
+        className="text-xs text-blue-600 hover:underline"
+      >
+        Reset MIDI mappings
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_MIDI_CHANNELS,
+  MidiSink,
+  type MidiChannelMap,
+  type MidiOutputMode,
+  type MidiVoice,
+} from '../lib/midiOutput'
+import { isWebMidiSupported, listMidiPorts, requestMidiAccess, type MidiPortInfo } from '../lib/webMidi'
+
+interface MidiOutputControlsProps {
+  onSinkChange: (sink: MidiSink | null) => void
+  onModeChange: (mode: MidiOutputMode) => void
+  onDebug?: (message: string) => void
+}
+
+const VOICE_LABELS: Record<MidiVoice, string> = {
+  kick: 'Kick',
+  hihat: 'Hi-Hat',
+  dark: 'Dark melody',
+  light: 'Light melody',
+}
+
+const MODE_LABELS: Record<MidiOutputMode, string> = {
+  internal: 'Internal synths',
+  midi: 'MIDI only',
+  both: 'Synths + MIDI',
+}
+
+export function MidiOutputControls({ onSinkChange, onModeChange, onDebug }: MidiOutputControlsProps) {
+  const [access, setAccess] = useState<MIDIAccess | null>(null)
+  const [ports, setPorts] = useState<MidiPortInfo[]>([])
+  const [portId, setPortId] = useState('')
+  const [mode, setMode] = useState<MidiOutputMode>('internal')
+  const [channels, setChannels] = useState<MidiChannelMap>(DEFAULT_MIDI_CHANNELS)
+  const [error, setError] = useState<string | null>(null)
+
+  // Keep the port list current as devices are plugged in and out
+  useEffect(() => {
+    if (!access) return
+
+    const refresh = () => setPorts(listMidiPorts(access.outputs.values()))
+    refresh()
+    access.addEventListener('statechange', refresh)
+    return () => access.removeEventListener('statechange', refresh)
+  }, [access])
+
+  // Rebuild the sink whenever the port or channel layout changes
+  useEffect(() => {
+    const output = access && portId ? access.outputs.get(portId) : undefined
+    if (!output) {
+      onSinkChange(null)
+      return
+    }
+
+    const sink = new MidiSink(output)
+    sink.setChannels(channels)
+    onSinkChange(sink)
+  }, [access, portId, channels, onSinkChange])
+
+  const enableMidi = async () => {
+    try {
+      const midiAccess = await requestMidiAccess()
+      setAccess(midiAccess)
+      setError(null)
+      onDebug?.(`🎹 MIDI access granted: ${midiAccess.outputs.size} output(s)`)
+    } catch (err) {
+      setError(`MIDI unavailable: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  const handleModeChange = (newMode: MidiOutputMode) => {
+    setMode(newMode)
+    onModeChange(newMode)
+  }
+
+  if (!isWebMidiSupported()) {
+    return <p className="text-xs text-gray-500">Web MIDI isn't supported in this browser</p>
+  }
+
+  if (!access) {
+    return (
+      <div className="space-y-1">
+        <button
+          onClick={enableMidi}
+          className="w-full px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-md text-sm"
+        >
+          Enable MIDI output
+        </button>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="midi-output-port" className="block text-sm font-medium mb-2">
+            Output port
+          </label>
+          <select
+            id="midi-output-port"
+            value={portId}
+            onChange={(e) => setPortId(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+          >
+            <option value="">None</option>
+            {ports.map((port) => (
+              <option key={port.id} value={port.id}>{port.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="midi-output-mode" className="block text-sm font-medium mb-2">
+            Play through
+          </label>
+          <select
+            id="midi-output-mode"
+            value={mode}
+            onChange={(e) => handleModeChange(e.target.value as MidiOutputMode)}
+            className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+          >
+            {(Object.keys(MODE_LABELS) as MidiOutputMode[]).map((value) => (
+              <option key={value} value={value}>{MODE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {(Object.keys(VOICE_LABELS) as MidiVoice[]).map((voice) => (
+          <div key={voice} className="flex items-center justify-between gap-2">
+            <label htmlFor={`midi-channel-${voice}`} className="text-sm">
+              {VOICE_LABELS[voice]}
+            </label>
+            <select
+              id={`midi-channel-${voice}`}
+              value={channels[voice]}
+              onChange={(e) => setChannels({ ...channels, [voice]: Number(e.target.value) })}
+              className="p-1 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              {Array.from({ length: 16 }, (_, channel) => (
+                <option key={channel} value={channel}>Ch {channel + 1}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import {
+  CHANNEL_STRIP_IDS,
+  CHANNEL_STRIP_LABELS,
+  type ChannelStripId,
+  type ChannelStripSettings,
+  type MasterBusSettings,
+} from '../lib/masterBus'
+
+interface MixerControlsProps {
+  strips: Record<ChannelStripId, ChannelStripSettings>
+  master: MasterBusSettings
+  onStripChange: (id: ChannelStripId, changes: Partial<ChannelStripSettings>) => void
+  onMasterChange: (settings: MasterBusSettings) => void
+}
+
+function formatPan(pan: number): string {
+  if (pan === 0) return 'C'
+  return `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`
+}
+
+export function MixerControls({ strips, master, onStripChange, onMasterChange }: MixerControlsProps) {
+  const updateCompressor = (changes: Partial<MasterBusSettings['compressor']>) => {
+    onMasterChange({ ...master, compressor: { ...master.compressor, ...changes } })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {CHANNEL_STRIP_IDS.map((id) => {
+          const strip = strips[id]
+          return (
+            <div key={id} className="border border-gray-200 rounded-md p-2 space-y-1">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="flex-1 font-medium">{CHANNEL_STRIP_LABELS[id]}</span>
+                <button
+                  onClick={() => onStripChange(id, { mute: !strip.mute })}
+                  aria-pressed={strip.mute}
+                  aria-label={`Mute ${CHANNEL_STRIP_LABELS[id]}`}
+                  className={`px-2 rounded text-xs font-bold ${strip.mute ? 'bg-red-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => onStripChange(id, { solo: !strip.solo })}
+                  aria-pressed={strip.solo}
+                  aria-label={`Solo ${CHANNEL_STRIP_LABELS[id]}`}
+                  className={`px-2 rounded text-xs font-bold ${strip.solo ? 'bg-yellow-400' : 'bg-gray-200 hover:bg-gray-300'}`}
+                >
+                  S
+                </button>
+              </div>
+              <label className="block text-xs">
+                Volume: {strip.volume > 0 ? '+' : ''}{strip.volume}dB
+                <input
+                  type="range"
+                  min={-40}
+                  max={12}
+                  step={0.5}
+                  value={strip.volume}
+                  onChange={(e) => onStripChange(id, { volume: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+              <label className="block text-xs">
+                Pan: {formatPan(strip.pan)}
+                <input
+                  type="range"
+                  min={-1}
+                  max={1}
+                  step={0.05}
+                  value={strip.pan}
+                  onChange={(e) => onStripChange(id, { pan: Number(e.target.value) })}
+                  onDoubleClick={() => onStripChange(id, { pan: 0 })}
+                  className="w-full"
+                />
+              </label>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="border border-gray-200 rounded-md p-2 space-y-1">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={master.compressor.enabled}
+            onChange={(e) => updateCompressor({ enabled: e.target.checked })}
+          />
+          Bus compressor
+        </label>
+        {master.compressor.enabled && (
+          <>
+            <label className="block text-xs">
+              Threshold: {master.compressor.threshold}dB
+              <input type="range" min={-60} max={0} step={1} value={master.compressor.threshold}
+                onChange={(e) => updateCompressor({ threshold: Number(e.target.value) })} className="w-full" />
+            </label>
+            <label className="block text-xs">
+              Ratio: {master.compressor.ratio}:1
+              <input type="range" min={1} max={20} step={0.5} value={master.compressor.ratio}
+                onChange={(e) => updateCompressor({ ratio: Number(e.target.value) })} className="w-full" />
+            </label>
+            <label className="block text-xs">
+              Attack: {Math.round(master.compressor.attack * 1000)}ms
+              <input type="range" min={0} max={0.2} step={0.001} value={master.compressor.attack}
+                onChange={(e) => updateCompressor({ attack: Number(e.target.value) })} className="w-full" />
+            </label>
+            <label className="block text-xs">
+              Release: {Math.round(master.compressor.release * 1000)}ms
+              <input type="range" min={0.01} max={1} step={0.01} value={master.compressor.release}
+                onChange={(e) => updateCompressor({ release: Number(e.target.value) })} className="w-full" />
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="border border-gray-200 rounded-md p-2 space-y-1">
+        <label className="block text-sm">
+          Master volume: {master.volume > 0 ? '+' : ''}{master.volume}dB
+          <input type="range" min={-24} max={12} step={0.5} value={master.volume}
+            onChange={(e) => onMasterChange({ ...master, volume: Number(e.target.value) })} className="w-full" />
+        </label>
+        <label className="block text-sm">
+          Limiter ceiling: {master.ceiling}dBFS
+          <input type="range" min={-12} max={0} step={0.1} value={master.ceiling}
+            onChange={(e) => onMasterChange({ ...master, ceiling: Number(e.target.value) })} className="w-full" />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Strips feed their theme's effects rack; both racks meet on the master bus, then compressor, master volume and
+        a brickwall limiter. Soloing any strip silences the rest
+      </p>
+    </div>
+  )
+}
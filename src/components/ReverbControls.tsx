@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react'
+import {
+  listStoredImpulses,
+  loadBundledImpulses,
+  removeImpulseFile,
+  storeImpulseFile,
+  type BundledImpulse,
+  type ImpulseSource,
+} from '../lib/impulses'
+import type { ReverbSettings } from '../lib/reverbChannel'
+
+interface ReverbControlsProps {
+  id: string // Reverb channel, also used for the inputs' ids
+  settings: ReverbSettings
+  onChange: (changes: Partial<ReverbSettings>) => void
+}
+
+type NumericSetting = Exclude<keyof ReverbSettings, 'impulse' | 'seed'>
+
+const SLIDERS: { setting: NumericSetting; label: (value: number) => string; min: number; max: number; step: number }[] = [
+  { setting: 'decay', label: (value) => `Decay Time: ${value.toFixed(1)}s`, min: 0.1, max: 10, step: 0.1 },
+  { setting: 'wet', label: (value) => `Wet/Dry Mix: ${value}%`, min: 0, max: 100, step: 1 },
+  { setting: 'preDelay', label: (value) => `Pre-delay: ${value}ms`, min: 0, max: 200, step: 1 },
+  { setting: 'roomSize', label: (value) => `Room Size: ${value.toFixed(1)}`, min: 0.5, max: 10, step: 0.1 },
+  { setting: 'damping', label: (value) => `Damping: ${value}Hz`, min: 0, max: 8000, step: 100 },
+  { setting: 'earlyLate', label: (value) => `Early/Late Balance: ${value}%`, min: 0, max: 100, step: 1 },
+  { setting: 'width', label: (value) => `Stereo Width: ${value}%`, min: 0, max: 200, step: 1 },
+]
+
+// Only the generated impulse has a decay and room size to shape
+const SYNTHETIC_ONLY: NumericSetting[] = ['decay', 'roomSize']
+
+// Select values: "synthetic", "bundled:<id>" or "file:<name>"
+function impulseValue(source: ImpulseSource): string {
+  return source.kind === 'synthetic' ? 'synthetic' : source.kind === 'bundled' ? `bundled:${source.id}` : `file:${source.name}`
+}
+
+function impulseFromValue(value: string): ImpulseSource {
+  if (value.startsWith('bundled:')) return { kind: 'bundled', id: value.slice('bundled:'.length) }
+  if (value.startsWith('file:')) return { kind: 'file', name: value.slice('file:'.length) }
+  return { kind: 'synthetic' }
+}
+
+export function ReverbControls({ id, settings, onChange }: ReverbControlsProps) {
+  const [bundled, setBundled] = useState<BundledImpulse[]>([])
+  const [uploaded, setUploaded] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const synthetic = settings.impulse.kind === 'synthetic'
+
+  useEffect(() => {
+    loadBundledImpulses().then(setBundled).catch(() => setBundled([]))
+    listStoredImpulses().then(setUploaded).catch(() => setUploaded([]))
+  }, [])
+
+  const upload = async (file: File) => {
+    try {
+      const name = await storeImpulseFile(file)
+      setUploaded((names) => (names.includes(name) ? names : [...names, name]))
+      onChange({ impulse: { kind: 'file', name } })
+      setError(null)
+    } catch (err) {
+      setError(`Couldn't store ${file.name}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  const removeUpload = (name: string) => {
+    removeImpulseFile(name).catch(() => {})
+    setUploaded((names) => names.filter((uploadedName) => uploadedName !== name))
+    onChange({ impulse: { kind: 'synthetic' } })
+  }
+
+  return (
+    <>
+      <div>
+        <label htmlFor={`${id}-reverb-impulse`} className="block text-sm font-medium mb-1">
+          Impulse Response
+        </label>
+        <select
+          id={`${id}-reverb-impulse`}
+          value={impulseValue(settings.impulse)}
+          onChange={(e) => onChange({ impulse: impulseFromValue(e.target.value) })}
+          className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+        >
+          <option value="synthetic">Generated</option>
+          {bundled.map((impulse) => (
+            <option key={impulse.id} value={`bundled:${impulse.id}`}>{impulse.name}</option>
+          ))}
+          {uploaded.map((name) => (
+            <option key={name} value={`file:${name}`}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      {synthetic ? (
+        <div>
+          <label htmlFor={`${id}-reverb-seed`} className="block text-sm font-medium mb-1">
+            Noise Seed
+          </label>
+          <input
+            id={`${id}-reverb-seed`}
+            type="number"
+            min="0"
+            step="1"
+            value={settings.seed}
+            onChange={(e) => {
+              const seed = Number(e.target.value)
+              if (Number.isInteger(seed) && seed >= 0) onChange({ seed })
+            }}
+            className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+          />
+        </div>
+      ) : settings.impulse.kind === 'file' && (
+        <button
+          onClick={() => settings.impulse.kind === 'file' && removeUpload(settings.impulse.name)}
+          className="text-xs text-red-600 hover:underline"
+        >
+          Delete this upload
+        </button>
+      )}
+
+      <label className="block text-sm">
+        <span className="block font-medium mb-1">Upload impulse (.wav)</span>
+        <input
+          type="file"
+          accept=".wav,audio/wav"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) upload(file)
+            e.target.value = ''
+          }}
+          className="w-full text-xs"
+        />
+      </label>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {SLIDERS.filter(({ setting }) => synthetic || !SYNTHETIC_ONLY.includes(setting)).map(({ setting, label, min, max, step }) => (
+        <div key={setting}>
+          <label htmlFor={`${id}-reverb-${setting}`} className="block text-sm font-medium mb-1">
+            {label(settings[setting])}
+          </label>
+          <input
+            id={`${id}-reverb-${setting}`}
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={settings[setting]}
+            onChange={(e) => onChange({ [setting]: Number(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">
+        {synthetic
+          ? 'Decay sets how long the tail rings; room size spreads the early reflections and slows the build-up. The same seed always gives the same reverb'
+          : 'Recorded impulses play the space as captured; early/late splits them 80ms in'}
+      </p>
+    </>
+  )
+}
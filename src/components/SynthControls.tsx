@@ -1,15 +1,14 @@
 import { useState } from 'react'
 import { EnvelopeVisualizer } from './EnvelopeVisualizer'
 import { DraggableNumberInput } from './DraggableNumberInput'
+import type { SynthEnvelope } from '../lib/synthEnvelopes'
 
+// Envelope and detune are held by the parent, so MIDI knobs can move them too
 interface SynthControlsProps {
   synthType: 'dark' | 'light'
-  onEnvelopeChange?: (envelope: {
-    attack: number
-    decay: number
-    sustain: number
-    release: number
-  }) => void
+  envelope: SynthEnvelope
+  detune: number
+  onEnvelopeChange?: (envelope: SynthEnvelope) => void
   onOscillatorChange?: (oscillator: {
     type: OscillatorType
     partialCount?: number
@@ -20,44 +19,19 @@ interface SynthControlsProps {
 
 type OscillatorType = 'sine' | 'square' | 'sawtooth' | 'triangle'
 
-export function SynthControls({ synthType, onEnvelopeChange, onOscillatorChange, onPortamentoChange, onDetuneChange }: SynthControlsProps) {
+export function SynthControls({ synthType, envelope, detune, onEnvelopeChange, onOscillatorChange, onPortamentoChange, onDetuneChange }: SynthControlsProps) {
   // Default values based on synth type
   const defaults = synthType === 'dark' 
-    ? { attack: 0.01, decay: 0.2, sustain: 0.3, release: 0.6, oscillator: 'sawtooth' as OscillatorType, portamento: 0, detune: 0 }
-    : { attack: 0.08, decay: 0.4, sustain: 0.7, release: 1.0, oscillator: 'sine' as OscillatorType, portamento: 0.05, detune: 0 }
+    ? { oscillator: 'sawtooth' as OscillatorType, portamento: 0 }
+    : { oscillator: 'sine' as OscillatorType, portamento: 0.05 }
 
-  const [attack, setAttack] = useState(defaults.attack)
-  const [decay, setDecay] = useState(defaults.decay)
-  const [sustain, setSustain] = useState(defaults.sustain)
-  const [release, setRelease] = useState(defaults.release)
+  const { attack, decay, sustain, release } = envelope
   const [oscillatorType, setOscillatorType] = useState<OscillatorType>(defaults.oscillator)
   const [partialCount, setPartialCount] = useState(8)
   const [portamento, setPortamento] = useState(defaults.portamento)
-  const [detune, setDetune] = useState(defaults.detune)
 
-  const handleEnvelopeChange = (param: string, value: number) => {
-    const newEnvelope = { attack, decay, sustain, release }
-    
-    switch(param) {
-      case 'attack':
-        setAttack(value)
-        newEnvelope.attack = value
-        break
-      case 'decay':
-        setDecay(value)
-        newEnvelope.decay = value
-        break
-      case 'sustain':
-        setSustain(value)
-        newEnvelope.sustain = value
-        break
-      case 'release':
-        setRelease(value)
-        newEnvelope.release = value
-        break
-    }
-    
-    onEnvelopeChange?.(newEnvelope)
+  const handleEnvelopeChange = (param: keyof SynthEnvelope, value: number) => {
+    onEnvelopeChange?.({ ...envelope, [param]: value })
   }
 
   const handleOscillatorTypeChange = (type: OscillatorType) => {
@@ -191,10 +165,7 @@ export function SynthControls({ synthType, onEnvelopeChange, onOscillatorChange,
           <DraggableNumberInput
             label="Detune"
             value={detune}
-            onChange={(v) => {
-              setDetune(v)
-              onDetuneChange?.(v)
-            }}
+            onChange={(v) => onDetuneChange?.(v)}
             min={-100}
             max={100}
             step={1}
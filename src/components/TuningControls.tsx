@@ -0,0 +1,164 @@
+import { useState } from 'react'
+import {
+  JUST_PRESET_LABELS,
+  TUNING_KIND_LABELS,
+  parseKbm,
+  parseScl,
+  type JustPreset,
+  type TuningKind,
+  type TuningSettings,
+} from '../lib/tuning'
+
+interface TuningControlsProps {
+  tuning: TuningSettings
+  onChange: (tuning: TuningSettings) => void
+  onDebug?: (message: string) => void
+}
+
+export function TuningControls({ tuning, onChange, onDebug }: TuningControlsProps) {
+  const [edoInput, setEdoInput] = useState(String(tuning.edo))
+  const [error, setError] = useState<string | null>(null)
+
+  const loadScl = async (file: File) => {
+    try {
+      const scale = parseScl(await file.text())
+      onChange({ ...tuning, kind: 'scala', scala: { name: file.name, scale, mapping: null } })
+      setError(null)
+      onDebug?.(`🎚️ Loaded ${file.name}: ${scale.cents.length} notes, ${scale.description || 'no description'}`)
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  const loadKbm = async (file: File) => {
+    if (!tuning.scala) return
+    try {
+      const mapping = parseKbm(await file.text())
+      onChange({ ...tuning, scala: { ...tuning.scala, mapping } })
+      setError(null)
+      onDebug?.(`🎚️ Loaded ${file.name}: ${mapping.size || 'linear'} key mapping, note ${mapping.referenceNote} = ${mapping.referenceFrequency}Hz`)
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  const applyEdo = () => {
+    const steps = Number(edoInput)
+    if (Number.isInteger(steps) && steps >= 1 && steps <= 311) {
+      onChange({ ...tuning, edo: steps })
+    } else {
+      setEdoInput(String(tuning.edo))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="tuning-kind" className="block text-sm font-medium mb-2">
+            Tuning
+          </label>
+          <select
+            id="tuning-kind"
+            value={tuning.kind}
+            onChange={(e) => onChange({ ...tuning, kind: e.target.value as TuningKind })}
+            className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+          >
+            {(Object.keys(TUNING_KIND_LABELS) as TuningKind[])
+              .filter((kind) => kind !== 'scala' || tuning.scala)
+              .map((kind) => (
+                <option key={kind} value={kind}>{TUNING_KIND_LABELS[kind]}</option>
+              ))}
+          </select>
+        </div>
+
+        {tuning.kind === 'edo' && (
+          <div>
+            <label htmlFor="tuning-edo" className="block text-sm font-medium mb-2">
+              Steps per octave
+            </label>
+            <input
+              id="tuning-edo"
+              type="number"
+              min="1"
+              max="311"
+              value={edoInput}
+              onChange={(e) => setEdoInput(e.target.value)}
+              onBlur={applyEdo}
+              onKeyDown={(e) => e.key === 'Enter' && applyEdo()}
+              className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+            />
+          </div>
+        )}
+
+        {tuning.kind === 'just' && (
+          <div>
+            <label htmlFor="tuning-just" className="block text-sm font-medium mb-2">
+              Ratios
+            </label>
+            <select
+              id="tuning-just"
+              value={tuning.just}
+              onChange={(e) => onChange({ ...tuning, just: e.target.value as JustPreset })}
+              className="w-full p-2 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              {(Object.keys(JUST_PRESET_LABELS) as JustPreset[]).map((preset) => (
+                <option key={preset} value={preset}>{JUST_PRESET_LABELS[preset]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <label className="block">
+          <span className="block font-medium mb-1">Load .scl</span>
+          <input
+            type="file"
+            accept=".scl"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) loadScl(file)
+              e.target.value = ''
+            }}
+            className="w-full text-xs"
+          />
+        </label>
+        {tuning.kind === 'scala' && tuning.scala && (
+          <label className="block">
+            <span className="block font-medium mb-1">Load .kbm (optional)</span>
+            <input
+              type="file"
+              accept=".kbm"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) loadKbm(file)
+                e.target.value = ''
+              }}
+              className="w-full text-xs"
+            />
+          </label>
+        )}
+      </div>
+
+      {tuning.kind === 'scala' && tuning.scala && (
+        <p className="text-xs text-gray-600">
+          {tuning.scala.name}: {tuning.scala.scale.description || 'no description'} ({tuning.scala.scale.cents.length} notes
+          {tuning.scala.mapping ? ', keyboard mapped' : ''})
+          {tuning.scala.mapping && (
+            <button
+              onClick={() => tuning.scala && onChange({ ...tuning, scala: { ...tuning.scala, mapping: null } })}
+              className="ml-2 text-blue-600 hover:underline"
+            >
+              Remove mapping
+            </button>
+          )}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <p className="text-xs text-gray-500">
+        Retunes the melody synths. Scales of 12 notes retune the mode; other sizes replace it, each scale degree playing the next step up from the key. A .kbm maps the steps to scale degrees; MIDI output stays 12-TET
+      </p>
+    </div>
+  )
+}
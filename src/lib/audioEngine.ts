@@ -1,36 +1,115 @@
-import { MembraneSynth, MetalSynth, PolySynth, Synth, getContext, now, start } from 'tone'
-import { MusicTheoryEngine } from './musicTheory'
+import { Filter, Gain, MembraneSynth, MetalSynth, PolySynth, Synth, Time, connect, getDraw, now, start } from 'tone'
+import { Note } from 'tonal'
+import { GM_CRASH_NOTE, GM_HIHAT_NOTE, GM_KICK_NOTE, type MidiOutputMode, type MidiSink } from './midiOutput'
+import { ModifierLayer, isFilterEffect, type ModifierEffect, type ModifierSettings } from './modifiers'
+import { JOURNEY_MOVE_LABELS, type HarmonicJourneySettings } from './harmonicJourney'
+import { MusicTheoryEngine, describeKeyCenter, type JourneyStep, type KeyCenter, type ModeType, type ScaleType } from './musicTheory'
+import { PatternDetector, type PatternDetectionSettings, type PatternEvent, type PatternMatch } from './patternDetector'
+import { digitEvents, watchStreamDigit, type DigitSound } from './digitEvents'
+import { DEFAULT_SYNTH_ENVELOPES } from './synthEnvelopes'
+import type { VoiceLeadingSettings } from './voiceLeading'
+import { DEFAULT_RADIX_ROLES, describeRole, digitRole, validateRadixRoles, type DigitRole, type RadixRoles } from './radixMapping'
+import {
+  BUILT_IN_INSTRUMENTS,
+  EMPTY_KIT,
+  InstrumentRegistry,
+  isBuiltInInstrument,
+  triggerInstrument,
+  type InstrumentKit,
+  type PlayableInstrument,
+} from './instruments'
+import type { TuningSettings } from './tuning'
+import { DEFAULT_REVERBS, ReverbChannel, type ReverbSettings } from './reverbChannel'
+import { describeImpulse, fetchImpulse, type ImpulseSource } from './impulses'
+import { DEFAULT_EFFECTS_RACK, EffectsRack, validateEffectsRack, type EffectsRackSettings } from './effectsRack'
+import {
+  CHANNEL_STRIP_IDS,
+  CHANNEL_STRIP_LABELS,
+  ChannelStrip,
+  DEFAULT_CHANNEL_STRIP,
+  DEFAULT_MASTER_BUS,
+  MasterBus,
+  validateMasterBus,
+  type ChannelStripId,
+  type ChannelStripSettings,
+  type MasterBusSettings,
+  type MeterReading,
+} from './masterBus'
+
+// Per-note options from the sequencer's rhythm layer
+export interface PlayDigitOptions {
+  duration?: number // Seconds; melody notes default to an eighth note
+  velocity?: number // 0-1
+}
+
+// Melody lowpass range for the modifier layer's filter sweeps
+const FILTER_OPEN_HZ = 18000
+const FILTER_CLOSED_HZ = 400
+const FILTER_SWEEP_SECONDS = 0.5
+
+// Setters that only reach synths once they exist; initialize replays them
+const SYNTH_SETTINGS = [
+  'setKickPitchDecay',
+  'setKickOctaves',
+  'setHihatResonance',
+  'setHihatFrequency',
+  'setDarkSynthEnvelope',
+  'setDarkSynthOscillator',
+  'setDarkSynthPortamento',
+  'setDarkSynthDetune',
+  'setLightSynthEnvelope',
+  'setLightSynthOscillator',
+  'setLightSynthPortamento',
+  'setLightSynthDetune',
+] as const
 
 export class AudioEngine {
   private kickSynth!: MembraneSynth
   private hihatSynth!: MetalSynth
+  private crashSynth!: MetalSynth // Pattern events
   private melodySynthDark!: PolySynth<Synth>  // For when 0 plays - aggressive sound
   private melodySynthLight!: PolySynth<Synth> // For when 1 plays - bright sound
-  // Dark theme reverb (kick + dark melody)
-  private darkReverbNode!: ConvolverNode
-  private darkReverbGain!: GainNode
-  private darkReverbFilter!: BiquadFilterNode
-  private darkEarlyReflections!: ConvolverNode
-  private darkLateReflections!: ConvolverNode
-  private darkEarlyGain!: GainNode
-  private darkLateGain!: GainNode
-  private darkPreDelayNode!: DelayNode
-  private darkStereoWidener!: StereoPannerNode
-  
-  // Light theme reverb (hihat + light melody)  
-  private lightReverbNode!: ConvolverNode
-  private lightReverbGain!: GainNode
-  private lightReverbFilter!: BiquadFilterNode
-  private lightEarlyReflections!: ConvolverNode
-  private lightLateReflections!: ConvolverNode
-  private lightEarlyGain!: GainNode
-  private lightLateGain!: GainNode
-  private lightPreDelayNode!: DelayNode
-  private lightStereoWidener!: StereoPannerNode
+  // Lowpass after each melody synth, swept by 0/1 modifiers
+  private melodyFilterDark!: Filter
+  private melodyFilterLight!: Filter
+  // Reverb channels by id ('dark': kick + dark melody, 'light': hi-hat + light melody)
+  private reverbs = new Map<string, ReverbChannel>()
+  private reverbSettings: Record<string, ReverbSettings> = structuredClone(DEFAULT_REVERBS)
+  
+  private reverbSlots = new Map<string, { input: Gain; output: Gain }>()
+  private pendingLoads = new Set<Promise<void>>() // Recorded reverb impulses still loading
+  
+  // Per-theme effects racks; each theme's reverb is one of their slots
+  private darkRack: EffectsRack | null = null
+  private lightRack: EffectsRack | null = null
+  private rackSettings: Record<'dark' | 'light', EffectsRackSettings> = {
+    dark: DEFAULT_EFFECTS_RACK,
+    light: DEFAULT_EFFECTS_RACK,
+  }
+
+  // Channel strips per voice, and the master bus both racks feed (see masterBus.ts)
+  private strips = new Map<ChannelStripId, ChannelStrip>()
+  private stripSettings = Object.fromEntries(
+    CHANNEL_STRIP_IDS.map(id => [id, { ...DEFAULT_CHANNEL_STRIP }])
+  ) as Record<ChannelStripId, ChannelStripSettings>
+  private master: MasterBus | null = null
+  private masterSettings: MasterBusSettings = DEFAULT_MASTER_BUS
+  
   public initialized = false
   private lastTriggerTime = 0
   private currentTheme: 'dark' | 'light' = 'dark'
+  private radix = 10 // Number base of incoming digit symbols
+  private radixRoles: RadixRoles = DEFAULT_RADIX_ROLES // What each digit does, per base
   private debugCallback?: (message: string) => void
+  private keyChangeCallback?: (keyCenter: KeyCenter) => void
+  private patternCallback?: (matches: PatternMatch[]) => void
+  private midiSink: MidiSink | null = null
+  private outputMode: MidiOutputMode = 'internal'
+  private modifiers = new ModifierLayer()
+  private patterns = new PatternDetector()
+  private kit: InstrumentKit = EMPTY_KIT
+  private instruments: InstrumentRegistry | null = null // Built with the other voices in initialize
+  private appliedSettings = new Map<string, (engine: AudioEngine) => void>() // Replayed by copySettingsTo
   
   // Music theory engine for scale/chord calculations
   private musicTheory: MusicTheoryEngine
@@ -42,162 +121,62 @@ export class AudioEngine {
     // Will be initialized in the initialize() method
   }
 
-  private createAdvancedReverbImpulse(
-    decayTime: number,
-    damping: number,
-    _earlyReflectionRatio: number
-  ) {
-    const audioContext = getContext().rawContext as AudioContext
-    const sampleRate = audioContext.sampleRate
-    const length = sampleRate * decayTime
-    
-    // Create full reverb impulse
-    const fullImpulse = audioContext.createBuffer(2, length, sampleRate)
-    
-    // Create early reflections (first 20% of impulse)
-    const earlyLength = Math.floor(length * 0.2)
-    const earlyImpulse = audioContext.createBuffer(2, earlyLength, sampleRate)
-    
-    // Create late reflections (remaining 80%)  
-    const lateLength = length - earlyLength
-    const lateImpulse = audioContext.createBuffer(2, lateLength, sampleRate)
-    
-    for (let channel = 0; channel < 2; channel++) {
-      const fullData = fullImpulse.getChannelData(channel)
-      const earlyData = earlyImpulse.getChannelData(channel)
-      const lateData = lateImpulse.getChannelData(channel)
-      
-      // Generate full impulse with damping
-      for (let i = 0; i < length; i++) {
-        const t = i / length
-        const decay = Math.pow(1 - t, 2)
-        
-        // Apply damping (high-frequency rolloff)
-        const dampingFactor = damping > 0 ? Math.exp(-t * damping / 1000) : 1
-        
-        const sample = (Math.random() * 2 - 1) * decay * dampingFactor
-        fullData[i] = sample
-        
-        // Split into early/late
-        if (i < earlyLength) {
-          earlyData[i] = sample
-        } else {
-          lateData[i - earlyLength] = sample
-        }
-      }
-    }
-    
-    return { fullImpulse, earlyImpulse, lateImpulse }
+  // Each reverb channel sits in its theme's rack as a slot that passes the dry
+  // signal through alongside the reverb
+  private createReverbSlot(id: string) {
+    const channel = new ReverbChannel(this.reverbSettings[id])
+    const slot = { input: new Gain(), output: new Gain() }
+    slot.input.connect(slot.output)
+    connect(slot.input, channel.input)
+    connect(channel.output, slot.output)
+    this.reverbs.set(id, channel)
+    this.reverbSlots.set(id, slot)
+    this.loadReverbImpulse(id, channel, this.reverbSettings[id].impulse)
+    return slot
   }
-  
-  private createThemeReverbs() {
-    const audioContext = getContext().rawContext as AudioContext
-    
-    // DARK THEME REVERB (more dramatic)
-    this.darkReverbNode = audioContext.createConvolver()
-    this.darkReverbGain = audioContext.createGain()
-    this.darkReverbFilter = audioContext.createBiquadFilter()
-    this.darkEarlyReflections = audioContext.createConvolver()
-    this.darkLateReflections = audioContext.createConvolver()
-    this.darkEarlyGain = audioContext.createGain()
-    this.darkLateGain = audioContext.createGain()
-    this.darkPreDelayNode = audioContext.createDelay(0.2)
-    this.darkStereoWidener = audioContext.createStereoPanner()
-    
-    // Dark defaults (more dramatic)
-    this.darkReverbGain.gain.value = 0.5 // 50% wet
-    this.darkReverbFilter.type = 'lowpass'
-    this.darkReverbFilter.frequency.value = 4000 // 4kHz damping
-    this.darkEarlyGain.gain.value = 0.5 // 50% early/late balance
-    this.darkLateGain.gain.value = 0.5
-    this.darkPreDelayNode.delayTime.value = 0.0 // 0ms pre-delay
-    this.darkStereoWidener.pan.value = 0 // center (100% width)
-    
-    // LIGHT THEME REVERB (more subtle)
-    this.lightReverbNode = audioContext.createConvolver()
-    this.lightReverbGain = audioContext.createGain()
-    this.lightReverbFilter = audioContext.createBiquadFilter()
-    this.lightEarlyReflections = audioContext.createConvolver()
-    this.lightLateReflections = audioContext.createConvolver()
-    this.lightEarlyGain = audioContext.createGain()
-    this.lightLateGain = audioContext.createGain()
-    this.lightPreDelayNode = audioContext.createDelay(0.2)
-    this.lightStereoWidener = audioContext.createStereoPanner()
-    
-    // Light defaults (more subtle)
-    this.lightReverbGain.gain.value = 0.3 // 30% wet
-    this.lightReverbFilter.type = 'lowpass'
-    this.lightReverbFilter.frequency.value = 6000 // 6kHz damping (brighter)
-    this.lightEarlyGain.gain.value = 0.5 // 50% early/late balance
-    this.lightLateGain.gain.value = 0.5
-    this.lightPreDelayNode.delayTime.value = 0.0 // 0ms pre-delay
-    this.lightStereoWidener.pan.value = 0 // center (100% width)
-    
-    // Generate impulse responses
-    const darkImpulses = this.createAdvancedReverbImpulse(3.0, 2000, 0.5) // 3s decay, 2kHz damping
-    const lightImpulses = this.createAdvancedReverbImpulse(1.5, 4000, 0.5) // 1.5s decay, 4kHz damping
-    
-    this.darkReverbNode.buffer = darkImpulses.fullImpulse
-    this.darkEarlyReflections.buffer = darkImpulses.earlyImpulse
-    this.darkLateReflections.buffer = darkImpulses.lateImpulse
-    
-    this.lightReverbNode.buffer = lightImpulses.fullImpulse
-    this.lightEarlyReflections.buffer = lightImpulses.earlyImpulse  
-    this.lightLateReflections.buffer = lightImpulses.lateImpulse
-    
-    this.debug('🎛️ Advanced dark/light reverbs created')
+
+  // A voice's channel strip, feeding the rack it plays through
+  private createStrip(id: ChannelStripId, rack: EffectsRack) {
+    const strip = new ChannelStrip(this.stripSettings[id])
+    strip.connect(rack.input)
+    this.strips.set(id, strip)
+    return strip.input
   }
 
   private setupAdvancedRouting() {
-    const audioContext = getContext().rawContext as AudioContext
-    this.debug('🔌 Setting up advanced reverb routing...')
-    
-    // DARK THEME ROUTING (kick + dark melody)
-    // Pre-delay -> Early/Late -> Filter -> Stereo -> Gain -> Destination
-    this.darkPreDelayNode.connect(this.darkEarlyReflections)
-    this.darkPreDelayNode.connect(this.darkLateReflections)
-    
-    this.darkEarlyReflections.connect(this.darkEarlyGain)
-    this.darkLateReflections.connect(this.darkLateGain)
-    
-    this.darkEarlyGain.connect(this.darkReverbFilter)
-    this.darkLateGain.connect(this.darkReverbFilter)
-    
-    this.darkReverbFilter.connect(this.darkStereoWidener)
-    this.darkStereoWidener.connect(this.darkReverbGain)
-    this.darkReverbGain.connect(audioContext.destination)
-    
-    // LIGHT THEME ROUTING (hihat + light melody)
-    this.lightPreDelayNode.connect(this.lightEarlyReflections)
-    this.lightPreDelayNode.connect(this.lightLateReflections)
-    
-    this.lightEarlyReflections.connect(this.lightEarlyGain)
-    this.lightLateReflections.connect(this.lightLateGain)
-    
-    this.lightEarlyGain.connect(this.lightReverbFilter)
-    this.lightLateGain.connect(this.lightReverbFilter)
-    
-    this.lightReverbFilter.connect(this.lightStereoWidener)
-    this.lightStereoWidener.connect(this.lightReverbGain)
-    this.lightReverbGain.connect(audioContext.destination)
-    
-    // Connect synths to their respective theme reverbs
-    this.kickSynth.connect(this.darkPreDelayNode) // Kick uses dark reverb
-    this.melodySynthDark.connect(this.darkPreDelayNode) // Dark melody uses dark reverb
-    
-    this.hihatSynth.connect(this.lightPreDelayNode) // Hihat uses light reverb  
-    this.melodySynthLight.connect(this.lightPreDelayNode) // Light melody uses light reverb
-    
-    // Also connect dry signals directly
-    this.kickSynth.toDestination()
-    this.hihatSynth.toDestination()
-    this.melodySynthDark.toDestination()
-    this.melodySynthLight.toDestination()
+    this.debug('🔌 Setting up effects routing...')
+
+    // Both racks meet on the master bus: compressor, limiter, meter
+    this.master = new MasterBus()
+    this.master.setSettings(this.masterSettings)
+    this.master.output.toDestination()
+
+    // Theme racks: filter, distortion, chorus, delay and the reverb, in the order set
+    this.darkRack = new EffectsRack(this.createReverbSlot('dark'))
+    this.darkRack.setSettings(this.rackSettings.dark)
+    this.darkRack.output.connect(this.master.input)
+    this.lightRack = new EffectsRack(this.createReverbSlot('light'))
+    this.lightRack.setSettings(this.rackSettings.light)
+    this.lightRack.output.connect(this.master.input)
+
+    // Connect synths through their channel strips to their theme racks
+    this.kickSynth.connect(this.createStrip('kick', this.darkRack)) // Kick uses dark rack
+    this.melodySynthDark.connect(this.melodyFilterDark)
+    this.melodyFilterDark.connect(this.createStrip('darkMelody', this.darkRack)) // Dark melody uses dark rack
+    this.createStrip('darkKit', this.darkRack)
+
+    this.hihatSynth.connect(this.createStrip('hihat', this.lightRack)) // Hihat uses light rack
+    this.crashSynth.connect(this.createStrip('crash', this.lightRack))
+    this.melodySynthLight.connect(this.melodyFilterLight)
+    this.melodyFilterLight.connect(this.createStrip('lightMelody', this.lightRack)) // Light melody uses light rack
+    this.createStrip('lightKit', this.lightRack)
     
-    this.debug('🔌 Advanced reverb routing complete!')
+    this.debug('🔌 Effects routing complete!')
   }
 
-  async initialize() {
+  // Offline renders pass startContext: false - there's no user gesture and the
+  // offline context runs on its own
+  async initialize(options: { startContext?: boolean } = {}) {
     if (this.initialized) return
     
     try {
@@ -209,51 +188,59 @@ export class AudioEngine {
       this.kickSynth.volume.value = -6 // Make sure it's audible
       this.hihatSynth = new MetalSynth()
       this.hihatSynth.volume.value = -6 // Make sure it's audible
+      this.crashSynth = new MetalSynth({
+        envelope: { attack: 0.001, decay: 1.4, release: 0.8 },
+        harmonicity: 5.1,
+        resonance: 3000,
+      })
+      this.crashSynth.frequency.value = 300
+      this.crashSynth.volume.value = -12
       // Dark theme synth - aggressive, bassy sound
       this.melodySynthDark = new PolySynth(Synth, {
         oscillator: { type: 'sawtooth' },
-        envelope: {
-          attack: 0.01,
-          decay: 0.2,
-          sustain: 0.3,
-          release: 0.6
-        }
+        envelope: DEFAULT_SYNTH_ENVELOPES.dark,
       })
       this.melodySynthDark.volume.value = -6 // Balanced with kick/hihat
       console.log('🎹 Dark melody synth (PolySynth) created:', this.melodySynthDark)
       this.debug(`🔍 Dark PolySynth volume: ${this.melodySynthDark.volume.value}dB`)
-      this.debug(`🔍 Dark PolySynth state: ${(this.melodySynthDark as any).state}`)
+      this.debug(`🔍 Dark PolySynth state: ${this.melodySynthDark.context.state}`)
       
       // Light theme synth - bright, melodic sound  
       this.melodySynthLight = new PolySynth(Synth, {
         oscillator: { type: 'sine' },
-        envelope: {
-          attack: 0.08,
-          decay: 0.4,
-          sustain: 0.7,
-          release: 1.0
-        }
+        envelope: DEFAULT_SYNTH_ENVELOPES.light,
       })
       this.melodySynthLight.volume.value = -6 // Balanced with kick/hihat
       console.log('🎹 Light melody synth (PolySynth) created:', this.melodySynthLight)
       this.debug(`🔍 Light PolySynth volume: ${this.melodySynthLight.volume.value}dB`)
-      this.debug(`🔍 Light PolySynth state: ${(this.melodySynthLight as any).state}`)
+      this.debug(`🔍 Light PolySynth state: ${this.melodySynthLight.context.state}`)
       
-      // Create advanced theme-based reverbs
-      console.log('🎛️ Creating advanced theme reverbs...')
-      this.createThemeReverbs()
-      console.log('🎛️ Advanced theme reverbs created')
+      this.melodyFilterDark = new Filter(FILTER_OPEN_HZ, 'lowpass')
+      this.melodyFilterLight = new Filter(FILTER_OPEN_HZ, 'lowpass')
       
-      
-      // Setup advanced routing  
+      // Theme reverbs and effects racks
       this.setupAdvancedRouting()
       
+      // Kit instruments share their bus's kit strip into that theme's rack
+      this.instruments = new InstrumentRegistry(
+        (instrument, bus) => {
+          const strip = this.strips.get(bus === 'dark' ? 'darkKit' : 'lightKit')
+          if (strip) instrument.connect(strip.input)
+        },
+        (id, error) => this.debug(`❌ Samples for ${this.instrumentName(id)} failed to load: ${error instanceof Error ? error.message : error}`)
+      )
+      this.instruments.sync(this.kit.instruments)
+      
       // Start Tone.js properly
-      console.log('Starting Tone.js...')
-      await start()
-      console.log('Tone.js started successfully')
+      if (options.startContext ?? true) {
+        console.log('Starting Tone.js...')
+        await start()
+        console.log('Tone.js started successfully')
+      }
       
       this.initialized = true
+      // Synth settings made before audio started
+      for (const key of SYNTH_SETTINGS) this.appliedSettings.get(key)?.(this)
       console.log('Audio engine initialized successfully')
     } catch (error) {
       console.error('Failed to initialize audio engine:', error)
@@ -275,7 +262,7 @@ export class AudioEngine {
     const testSynth = this.currentTheme === 'dark' ? this.melodySynthDark : this.melodySynthLight
     this.debug(`🧪 Testing ${this.currentTheme} melody synth directly...`)
     this.debug(`🔍 Synth volume: ${testSynth.volume.value}dB`)
-    this.debug(`🔍 Synth state: ${(testSynth as any).state}`)
+    this.debug(`🔍 Synth state: ${testSynth.context.state}`)
     
     try {
       testSynth.triggerAttackRelease('C4', '2n')
@@ -295,16 +282,17 @@ export class AudioEngine {
     }
     
     try {
-      this.debug('🎛️ ADVANCED REVERB STATUS:')
-      this.debug(`🔍 Dark reverb exists: ${!!this.darkReverbGain}`)
-      this.debug(`🔍 Light reverb exists: ${!!this.lightReverbGain}`)
-      if (this.darkReverbGain) {
-        this.debug(`🌙 Dark reverb mix: ${this.darkReverbGain.gain.value}`)
+      this.debug('🎛️ REVERB STATUS:')
+      for (const [id, channel] of this.reverbs) {
+        const { decay, roomSize, wet, width } = channel.getSettings()
+        this.debug(`🔍 ${id} reverb: ${decay}s decay, room ${roomSize}, ${wet}% wet, ${width}% width`)
       }
-      if (this.lightReverbGain) {
-        this.debug(`☀️ Light reverb mix: ${this.lightReverbGain.gain.value}`)
+      for (const theme of ['dark', 'light'] as const) {
+        const { order, bypassed } = this.rackSettings[theme]
+        this.debug(`🎚️ ${theme} rack: ${order.map(type => (bypassed.includes(type) ? `(${type})` : type)).join(' → ')}`)
       }
-      
+      const { compressor, volume, ceiling } = this.masterSettings
+      this.debug(`🎛️ Master: compressor ${compressor.enabled ? `${compressor.threshold}dB ${compressor.ratio}:1` : 'off'}, volume ${volume}dB, ceiling ${ceiling}dBFS`)
       
       this.debug(`🎵 Current theme: ${this.currentTheme}`)
     } catch (error) {
@@ -312,6 +300,36 @@ export class AudioEngine {
     }
   }
 
+  // Silence the MIDI output, e.g. when playback stops
+  stopMidiNotes() {
+    this.midiSink?.allNotesOff()
+  }
+
+  // Send notes to a MIDI output (null to disconnect)
+  setMidiSink(sink: MidiSink | null) {
+    if (this.midiSink !== sink) this.midiSink?.allNotesOff()
+    this.midiSink = sink
+    this.debug(sink ? '🎹 MIDI output connected' : '🎹 MIDI output disconnected')
+  }
+  
+  // Internal synths, MIDI output, or both
+  setMidiOutputMode(mode: MidiOutputMode) {
+    this.outputMode = mode
+    this.debug(`🎹 Output mode: ${mode}`)
+  }
+
+  // Replay every parameter set on this engine onto another one (e.g. an offline render)
+  copySettingsTo(target: AudioEngine) {
+    this.appliedSettings.forEach(apply => apply(target))
+  }
+
+  // Each setter records a call that repeats it, under its own name; setters that
+  // address one of several things (e.g. a reverb channel) use a key per thing, so
+  // each one's latest values are kept
+  private rememberSetting(key: string, apply: (engine: AudioEngine) => void) {
+    this.appliedSettings.set(key, apply)
+  }
+
   // Set debug callback
   setDebugCallback(callback: (message: string) => void) {
     this.debugCallback = callback
@@ -324,48 +342,61 @@ export class AudioEngine {
     }
   }
 
-  playDigit(digit: string) {
+  // Play a digit now, or at an audio-clock time scheduled ahead by the sequencer
+  playDigit(digit: string, time?: number, options: PlayDigitOptions = {}) {
     if (!this.initialized) {
       return // Don't try to initialize here, too expensive
     }
 
     try {
+      // Use Tone.js 'now()' for better timing
+      const triggerTime = time ?? now() + 0.01
+
       // Prevent rapid-fire triggering
-      const currentTime = now()
-      if (currentTime - this.lastTriggerTime < 0.05) { // 50ms minimum between notes
+      if (Math.abs(triggerTime - this.lastTriggerTime) < 0.05) { // 50ms minimum between notes
         return
       }
-      this.lastTriggerTime = currentTime
+      this.lastTriggerTime = triggerTime
+      const { duration = '8n', velocity = 1 } = options
 
-      // Use Tone.js 'now()' for better timing
-      const triggerTime = now() + 0.01
-
-      switch (digit) {
-        case '0':
-          // Kick drum - switches to dark theme
-          this.currentTheme = 'dark'
-          this.debug('🥁 Digit 0: KICK + switched to DARK theme (sawtooth)')
-          this.kickSynth.triggerAttackRelease('C1', '16n', triggerTime)
+      // Look up what this symbol does in the current number base
+      const role = digitRole(digit, this.radix, this.radixRoles)
+      if (!role) return
+      
+      const { sound, theme, modifier } = digitEvents(digit, role, {
+        theory: this.musicTheory,
+        modifiers: this.modifiers,
+        kit: this.kit,
+        theme: this.currentTheme,
+      })
+      this.currentTheme = theme
+      this.applyModifier(modifier, triggerTime)
+      
+      const playInternal = this.outputMode !== 'midi'
+      const midiSink = this.outputMode !== 'internal' ? this.midiSink : null
+
+      switch (sound.kind) {
+        case 'route':
+          this.playRoute(digit, role, sound, triggerTime, duration, velocity)
           break
-          
-        case '1':
-          // Hi-hat - switches to light theme
-          this.currentTheme = 'light'
-          this.debug('🎩 Digit 1: HI-HAT + switched to LIGHT theme (sine)')
-          this.hihatSynth.triggerAttackRelease('G5', '32n', triggerTime)
+
+        case 'drum':
+          if (sound.drum === 'kick') {
+            // Kick drum - switches to dark theme
+            this.debug(`🥁 Digit ${digit}: KICK + switched to DARK theme (sawtooth)`)
+            if (playInternal) this.kickSynth.triggerAttackRelease('C1', '16n', triggerTime, velocity)
+            midiSink?.playNote('kick', GM_KICK_NOTE, velocity, triggerTime, Time('16n').toSeconds())
+          } else {
+            // Hi-hat - switches to light theme
+            this.debug(`🎩 Digit ${digit}: HI-HAT + switched to LIGHT theme (sine)`)
+            if (playInternal) this.hihatSynth.triggerAttackRelease('G5', '32n', triggerTime, velocity)
+            midiSink?.playNote('hihat', GM_HIHAT_NOTE, velocity, triggerTime, Time('32n').toSeconds())
+          }
           break
           
-        case '2':
-        case '3':
-        case '4':
-        case '5':
-        case '6':
-        case '7':
-        case '8':
-        case '9':
-          // Melody notes - use music theory engine to determine chord/note
-          const digitNum = parseInt(digit)
-          const chordNotes = this.musicTheory.digitToChordNotes(digitNum, 4) // Use 4th octave
+        case 'melody': {
+          // Melody notes - chord or note from the music theory engine
+          const chordNotes = sound.notes
           const activeSynth = this.currentTheme === 'dark' ? this.melodySynthDark : this.melodySynthLight
           const synthType = this.currentTheme === 'dark' ? 'DARK(sawtooth)' : 'LIGHT(sine)'
           
@@ -374,6 +405,15 @@ export class AudioEngine {
             break
           }
           
+          if (midiSink) {
+            const noteSeconds = Time(duration).toSeconds()
+            for (const note of chordNotes) {
+              const pitch = Note.midi(note)
+              if (pitch !== null) midiSink.playNote(this.currentTheme, pitch, velocity, triggerTime, noteSeconds)
+            }
+          }
+          if (!playInternal) break
+          
           if (!activeSynth) {
             this.debug(`❌ Digit ${digit}: Active synth is UNDEFINED! (theme: ${this.currentTheme})`)
             break
@@ -381,37 +421,34 @@ export class AudioEngine {
           
           try {
             const isChord = chordNotes.length > 1
-            const noteDisplay = isChord ? `[${chordNotes.join(', ')}]` : chordNotes[0]
+            const chordSymbol = this.musicTheory.chordSymbol(chordNotes)
+            const noteDisplay = isChord ? `${chordSymbol ?? ''}[${chordNotes.join(', ')}]` : chordNotes[0]
             
             this.debug(`🔍 About to play: ${noteDisplay} on ${synthType}`)
-            this.debug(`🔍 Scale degree: ${this.musicTheory.digitToScaleDegree(digitNum)}`)
+            this.debug(`🔍 Role: ${describeRole(role)} (base ${this.radix})`)
             this.debug(`🔍 Current settings: ${this.musicTheory.getCurrentSettings().key} ${this.musicTheory.getCurrentSettings().mode} ${this.musicTheory.getCurrentSettings().chord}`)
             this.debug(`🔍 Chord type: ${isChord ? 'CHORD' : 'SINGLE'} (${chordNotes.length} notes)`)
             this.debug(`🔍 Synth volume: ${activeSynth.volume.value}dB`)
             
-            // Calculate volume scaling based on number of notes to prevent clipping
-            const noteCount = chordNotes.length
-            const baseVolume = -6 // Our standard base volume
-            const scaledVolume = this.calculatePolyphonicVolume(baseVolume, noteCount)
-            
-            // Temporarily adjust synth volume for this chord
-            const originalVolume = activeSynth.volume.value
-            activeSynth.volume.rampTo(scaledVolume, 0.01, triggerTime) // Quick ramp to new volume
-            
-            this.debug(`🔊 Volume scaling: ${noteCount} notes → ${scaledVolume.toFixed(1)}dB (was ${originalVolume}dB)`)
+            // Note names in 12-TET, exact frequencies in other tunings
+            const pitches = this.musicTheory.tunePitches(role, chordNotes)
+            if (pitches.length === 0) {
+              this.debug(`🎚️ Digit ${digit}: no notes mapped in the tuning`)
+              break
+            }
+            if (typeof pitches[0] === 'number') {
+              this.debug(`🎚️ Tuned: ${pitches.map(pitch => `${Number(pitch).toFixed(2)}Hz`).join(', ')}`)
+            }
             
             // Play either single note or chord
             if (isChord) {
               // PolySynth can handle arrays of notes for chords
-              activeSynth.triggerAttackRelease(chordNotes, '8n', triggerTime)
+              activeSynth.triggerAttackRelease(pitches, duration, triggerTime, velocity)
             } else {
               // Single note
-              activeSynth.triggerAttackRelease(chordNotes[0], '8n', triggerTime)
+              activeSynth.triggerAttackRelease(pitches[0], duration, triggerTime, velocity)
             }
             
-            // Restore original volume after the note duration
-            activeSynth.volume.rampTo(originalVolume, 0.1, triggerTime + 0.5) // Restore after 500ms
-            
             this.debug(`🎼 ${digit}=${noteDisplay} (${synthType}) - TRIGGERED`)
             
             // Check if synth is making sound by checking active voices
@@ -427,167 +464,317 @@ export class AudioEngine {
             this.debug(`❌ Digit ${digit}: Failed - ${synthError}`)
           }
           break
+        }
       }
     } catch (error) {
       console.error('Error playing digit:', digit, error)
     }
   }
 
+  // A digit routed to a kit instrument or a built-in voice
+  private playRoute(digit: string, role: DigitRole, sound: Extract<DigitSound, { kind: 'route' }>, time: number, duration: string | number, velocity: number) {
+    const { route, notes, melodic } = sound
+    const instrument = this.routeInstrument(route.instrumentId)
+    if (!instrument) {
+      this.debug(`❌ Digit ${digit}: no instrument "${route.instrumentId}" in the kit`)
+      return
+    }
+    if (this.instruments?.isSilent(route.instrumentId)) {
+      this.debug(`⏳ Digit ${digit}: ${this.instrumentName(route.instrumentId)} has no samples loaded yet`)
+      return
+    }
+    if (notes.length === 0) return
+    
+    const midiSink = this.outputMode !== 'internal' ? this.midiSink : null
+    if (midiSink) {
+      // Built-in voices keep their channel; kit instruments use their bus's melody channel
+      const voice = isBuiltInInstrument(route.instrumentId)
+        ? route.instrumentId
+        : this.kit.instruments.find(config => config.id === route.instrumentId)?.bus ?? 'light'
+      const seconds = instrument.toSeconds(duration)
+      for (const note of notes) {
+        const pitch = Note.midi(note)
+        if (pitch !== null) midiSink.playNote(voice, pitch, velocity, time, seconds)
+      }
+    }
+    
+    if (this.outputMode !== 'midi') {
+      triggerInstrument(instrument, melodic ? this.musicTheory.tunePitches(role, notes) : notes, duration, time, velocity)
+    }
+    this.debug(`🎛️ ${digit} → ${this.instrumentName(route.instrumentId)}: ${notes.join(', ')}`)
+  }
+  
+  private routeInstrument(id: string): PlayableInstrument | null {
+    switch (id) {
+      case 'kick':
+        return this.kickSynth
+      case 'hihat':
+        return this.hihatSynth
+      case 'dark':
+        return this.melodySynthDark
+      case 'light':
+        return this.melodySynthLight
+      default:
+        return this.instruments?.get(id) ?? null
+    }
+  }
+  
+  private instrumentName(id: string): string {
+    if (isBuiltInInstrument(id)) return BUILT_IN_INSTRUMENTS[id]
+    return this.kit.instruments.find(config => config.id === id)?.name ?? id
+  }
+  
+  // The callback runs in time with the audio, so the UI doesn't change key early
+  private reportKeyChange(step: JourneyStep, time: number) {
+    const trigger = {
+      every: `${this.musicTheory.getHarmonicJourney().every} digits`,
+      pattern: 'pattern',
+      detector: 'pattern event',
+    }[step.trigger]
+    this.debug(`🧭 Key change (${JOURNEY_MOVE_LABELS[step.move]}, ${trigger}): ${describeKeyCenter(step.from)} → ${describeKeyCenter(step.to)}`)
+    const callback = this.keyChangeCallback
+    if (callback) getDraw().schedule(() => callback(step.to), time)
+  }
+
+  // Every digit of the stream at its stream index, tied repeats included (playDigit
+  // only hears the ones that sound). Advances the harmonic journey, plays events for
+  // new patterns and hands all matches to the pattern callback in time with the audio
+  watchDigit(digit: string, index: number, time: number) {
+    const watched = watchStreamDigit(digit, index, {
+      theory: this.musicTheory,
+      patterns: this.patterns,
+      radix: this.radix,
+      radixRoles: this.radixRoles,
+    })
+    if (watched.journeyStep) this.reportKeyChange(watched.journeyStep, time)
+    if (watched.matches.length === 0) return
+
+    for (const { match, event, keyChange } of watched.newPatterns) {
+      this.debug(`✨ Pattern: ${match.kind} "${match.text}" at digit ${match.start}${event !== 'none' ? ` → ${event}` : ''}`)
+      if (keyChange) this.reportKeyChange(keyChange, time)
+      if (this.initialized) this.playPatternEvent(event, time)
+    }
+
+    const callback = this.patternCallback
+    const { matches } = watched
+    if (callback) getDraw().schedule(() => callback(matches), time)
+  }
+
+  // Fills and crashes; key changes are made as the digit is watched
+  private playPatternEvent(event: PatternEvent, time: number) {
+    const playInternal = this.outputMode !== 'midi'
+    const midiSink = this.outputMode !== 'internal' ? this.midiSink : null
+
+    switch (event) {
+      case 'fill': {
+        // Four hi-hat hits a 32nd apart, getting louder (in the synth's own context,
+        // which is the offline one during renders)
+        const spacing = this.hihatSynth.toSeconds('32n')
+        for (let hit = 0; hit < 4; hit++) {
+          const velocity = 0.4 + hit * 0.2
+          if (playInternal) this.hihatSynth.triggerAttackRelease('G5', '64n', time + hit * spacing, velocity)
+          midiSink?.playNote('hihat', GM_HIHAT_NOTE, velocity, time + hit * spacing, spacing / 2)
+        }
+        break
+      }
+      case 'crash':
+        if (playInternal) this.crashSynth.triggerAttackRelease('C4', '2n', time)
+        midiSink?.playNote('hihat', GM_CRASH_NOTE, 1, time, this.crashSynth.toSeconds('2n'))
+        break
+    }
+  }
+
+  // Filter sweeps act right away; note modifiers are applied by the layer to later notes
+  private applyModifier(effect: ModifierEffect, time: number) {
+    if (effect === 'none') return
+    this.debug(`🎛️ Modifier: ${effect}`)
+    if (!isFilterEffect(effect)) return
+    
+    for (const filter of [this.melodyFilterDark, this.melodyFilterLight]) {
+      const { frequency } = filter
+      frequency.cancelScheduledValues(time)
+      if (effect === 'filterDown') {
+        // Close quickly, then open back up
+        frequency.setValueAtTime(FILTER_OPEN_HZ, time)
+        frequency.exponentialRampToValueAtTime(FILTER_CLOSED_HZ, time + FILTER_SWEEP_SECONDS)
+        frequency.exponentialRampToValueAtTime(FILTER_OPEN_HZ, time + FILTER_SWEEP_SECONDS * 4)
+      } else {
+        frequency.setValueAtTime(FILTER_CLOSED_HZ, time)
+        frequency.exponentialRampToValueAtTime(FILTER_OPEN_HZ, time + FILTER_SWEEP_SECONDS * 2)
+      }
+    }
+  }
+
   // Clean disposal method
   dispose() {
     if (this.kickSynth) this.kickSynth.dispose()
     if (this.hihatSynth) this.hihatSynth.dispose()  
+    if (this.crashSynth) this.crashSynth.dispose()
+    this.instruments?.dispose()
     if (this.melodySynthDark) this.melodySynthDark.dispose()
     if (this.melodySynthLight) this.melodySynthLight.dispose()
-    // Disconnect dark reverb chain
-    if (this.darkReverbNode) this.darkReverbNode.disconnect()
-    if (this.darkReverbGain) this.darkReverbGain.disconnect()
-    if (this.darkReverbFilter) this.darkReverbFilter.disconnect()
-    if (this.darkEarlyReflections) this.darkEarlyReflections.disconnect()
-    if (this.darkLateReflections) this.darkLateReflections.disconnect()
-    if (this.darkEarlyGain) this.darkEarlyGain.disconnect()
-    if (this.darkLateGain) this.darkLateGain.disconnect()
-    if (this.darkPreDelayNode) this.darkPreDelayNode.disconnect()
-    if (this.darkStereoWidener) this.darkStereoWidener.disconnect()
+    if (this.melodyFilterDark) this.melodyFilterDark.dispose()
+    if (this.melodyFilterLight) this.melodyFilterLight.dispose()
     
-    // Disconnect light reverb chain
-    if (this.lightReverbNode) this.lightReverbNode.disconnect()
-    if (this.lightReverbGain) this.lightReverbGain.disconnect()
-    if (this.lightReverbFilter) this.lightReverbFilter.disconnect()
-    if (this.lightEarlyReflections) this.lightEarlyReflections.disconnect()
-    if (this.lightLateReflections) this.lightLateReflections.disconnect()
-    if (this.lightEarlyGain) this.lightEarlyGain.disconnect()
-    if (this.lightLateGain) this.lightLateGain.disconnect()
-    if (this.lightPreDelayNode) this.lightPreDelayNode.disconnect()
-    if (this.lightStereoWidener) this.lightStereoWidener.disconnect()
+    for (const strip of this.strips.values()) strip.dispose()
+    this.strips.clear()
+    this.darkRack?.dispose()
+    this.lightRack?.dispose()
+    this.darkRack = null
+    this.lightRack = null
+    this.master?.dispose()
+    this.master = null
+    for (const channel of this.reverbs.values()) channel.dispose()
+    for (const slot of this.reverbSlots.values()) {
+      slot.input.dispose()
+      slot.output.dispose()
+    }
+    this.reverbs.clear()
+    this.reverbSlots.clear()
     this.initialized = false
   }
 
-  // DARK THEME REVERB CONTROLS (7 parameters)
-  setDarkReverbDecay(decay: number) {
-    if (!this.initialized) return
-    // Regenerate impulse with new decay time
-    const impulses = this.createAdvancedReverbImpulse(decay, 2000, 0.5)
-    this.darkReverbNode.buffer = impulses.fullImpulse
-    this.darkEarlyReflections.buffer = impulses.earlyImpulse
-    this.darkLateReflections.buffer = impulses.lateImpulse
-    this.debug(`🌙 Dark decay: ${decay}s`)
+  // REVERB CONTROLS (see reverbChannel.ts). Remembered per channel, so an offline
+  // render gets every channel's settings. The engine has a 'dark' and a 'light'
+  // channel; other ids throw
+  setReverb(id: string, changes: Partial<ReverbSettings>) {
+    const current = this.reverbSettings[id]
+    if (!current) throw new Error(`No reverb channel "${id}"`)
+    const settings = { ...current, ...changes }
+    this.rememberSetting(`setReverb:${id}`, engine => engine.setReverb(id, settings))
+    this.reverbSettings[id] = settings
+    const channel = this.reverbs.get(id)
+    channel?.set(settings)
+    if (channel && changes.impulse) this.loadReverbImpulse(id, channel, changes.impulse)
+    this.debug(`${id === 'dark' ? '🌙' : id === 'light' ? '☀️' : '🌊'} ${id} reverb: ${Object.entries(changes).map(([name, value]) => `${name} ${value}`).join(', ')}`)
   }
 
-  setDarkReverbWet(wet: number) {
-    if (!this.initialized) return
-    this.darkReverbGain.gain.value = wet / 100 // Convert 0-100 to 0-1
-    this.debug(`🌙 Dark wet: ${wet}%`)
+  getReverb(id: string): ReverbSettings | null {
+    const settings = this.reverbSettings[id]
+    return settings ? { ...settings } : null
   }
 
-  setDarkReverbPreDelay(preDelay: number) {
-    if (!this.initialized) return
-    this.darkPreDelayNode.delayTime.value = preDelay / 1000 // Convert ms to seconds
-    this.debug(`🌙 Dark pre-delay: ${preDelay}ms`)
+  // Recorded impulses load in the background; the channel keeps its current one
+  // until the new one is decoded, or if it fails
+  private loadReverbImpulse(id: string, channel: ReverbChannel, source: ImpulseSource) {
+    if (source.kind === 'synthetic') {
+      channel.setRecording(null)
+      return
+    }
+    const load = (async () => {
+      try {
+        const recording = await channel.decode(await fetchImpulse(source))
+        // Skip it if another impulse was picked while this one loaded
+        if (JSON.stringify(this.reverbSettings[id]?.impulse) !== JSON.stringify(source)) return
+        channel.setRecording(recording)
+        this.debug(`🌊 ${id} reverb impulse: ${describeImpulse(source)} (${recording.duration.toFixed(1)}s)`)
+      } catch (error) {
+        this.debug(`❌ ${id} reverb impulse ${describeImpulse(source)} failed to load: ${error instanceof Error ? error.message : error}`)
+      }
+    })()
+    this.pendingLoads.add(load)
+    load.finally(() => this.pendingLoads.delete(load))
   }
 
-  setDarkReverbRoomSize(roomSize: number) {
-    if (!this.initialized) return
-    // Regenerate impulse with new room size (affects decay time)
-    const impulses = this.createAdvancedReverbImpulse(roomSize, 2000, 0.5)
-    this.darkReverbNode.buffer = impulses.fullImpulse
-    this.darkEarlyReflections.buffer = impulses.earlyImpulse
-    this.darkLateReflections.buffer = impulses.lateImpulse
-    this.debug(`🌙 Dark room size: ${roomSize}`)
+  // EFFECTS RACKS (see effectsRack.ts)
+  setDarkEffectsRack(settings: EffectsRackSettings) {
+    this.rememberSetting('setDarkEffectsRack', engine => engine.setDarkEffectsRack(settings))
+    this.applyEffectsRack('dark', settings)
   }
 
-  setDarkReverbDamping(damping: number) {
-    if (!this.initialized) return
-    this.darkReverbFilter.frequency.value = damping
-    this.debug(`🌙 Dark damping: ${damping}Hz`)
+  setLightEffectsRack(settings: EffectsRackSettings) {
+    this.rememberSetting('setLightEffectsRack', engine => engine.setLightEffectsRack(settings))
+    this.applyEffectsRack('light', settings)
   }
 
-  setDarkReverbEarlyLateBalance(balance: number) {
-    if (!this.initialized) return
-    const early = balance / 100 // 0-1
-    const late = 1 - early
-    this.darkEarlyGain.gain.value = early
-    this.darkLateGain.gain.value = late
-    this.debug(`🌙 Dark early/late: ${balance}%`)
+  getEffectsRack(theme: 'dark' | 'light'): EffectsRackSettings {
+    return structuredClone(this.rackSettings[theme])
   }
 
-  setDarkReverbStereoWidth(width: number) {
-    if (!this.initialized) return
-    // Convert 0-200% to stereo panner range
-    const panValue = (width - 100) / 100 // 0%=−1, 100%=0, 200%=1
-    this.darkStereoWidener.pan.value = Math.max(-1, Math.min(1, panValue))
-    this.debug(`🌙 Dark width: ${width}%`)
+  // Tempo-synced effect times (e.g. a "16n" delay) follow the Transport's current tempo
+  retimeEffects() {
+    this.darkRack?.retime()
+    this.lightRack?.retime()
   }
 
-  // LIGHT THEME REVERB CONTROLS (7 parameters)  
-  setLightReverbDecay(decay: number) {
-    if (!this.initialized) return
-    const impulses = this.createAdvancedReverbImpulse(decay, 4000, 0.5)
-    this.lightReverbNode.buffer = impulses.fullImpulse
-    this.lightEarlyReflections.buffer = impulses.earlyImpulse
-    this.lightLateReflections.buffer = impulses.lateImpulse
-    this.debug(`☀️ Light decay: ${decay}s`)
+  private applyEffectsRack(theme: 'dark' | 'light', settings: EffectsRackSettings) {
+    const icon = theme === 'dark' ? '🌙' : '☀️'
+    try {
+      validateEffectsRack(settings)
+      ;(theme === 'dark' ? this.darkRack : this.lightRack)?.setSettings(settings)
+      this.rackSettings[theme] = structuredClone(settings)
+      const active = settings.order.filter(type => !settings.bypassed.includes(type))
+      this.debug(`${icon} Effects: ${active.join(' → ') || 'all bypassed'}`)
+    } catch (error) {
+      this.debug(`❌ ${icon} Effects not changed: ${error instanceof Error ? error.message : error}`)
+    }
   }
 
-  setLightReverbWet(wet: number) {
-    if (!this.initialized) return
-    this.lightReverbGain.gain.value = wet / 100
-    this.debug(`☀️ Light wet: ${wet}%`)
+  // MIXER (see masterBus.ts). Strips are remembered one by one, like reverb channels
+  setChannelStrip(id: ChannelStripId, changes: Partial<ChannelStripSettings>) {
+    const settings = { ...this.stripSettings[id], ...changes }
+    this.rememberSetting(`setChannelStrip:${id}`, engine => engine.setChannelStrip(id, settings))
+    this.stripSettings[id] = settings
+    this.strips.get(id)?.set(settings)
+    this.debug(`🎛️ ${CHANNEL_STRIP_LABELS[id]}: ${Object.entries(changes).map(([name, value]) => `${name} ${value}`).join(', ')}`)
   }
 
-  setLightReverbPreDelay(preDelay: number) {
-    if (!this.initialized) return
-    this.lightPreDelayNode.delayTime.value = preDelay / 1000
-    this.debug(`☀️ Light pre-delay: ${preDelay}ms`)
+  getChannelStrip(id: ChannelStripId): ChannelStripSettings {
+    return { ...this.stripSettings[id] }
   }
 
-  setLightReverbRoomSize(roomSize: number) {
-    if (!this.initialized) return
-    // Regenerate impulse with new room size (affects decay time)
-    const impulses = this.createAdvancedReverbImpulse(roomSize, 4000, 0.5)
-    this.lightReverbNode.buffer = impulses.fullImpulse
-    this.lightEarlyReflections.buffer = impulses.earlyImpulse
-    this.lightLateReflections.buffer = impulses.lateImpulse
-    this.debug(`☀️ Light room size: ${roomSize}`)
+  setMasterBus(settings: MasterBusSettings) {
+    try {
+      validateMasterBus(settings)
+      this.rememberSetting('setMasterBus', engine => engine.setMasterBus(settings))
+      this.master?.setSettings(settings)
+      this.masterSettings = structuredClone(settings)
+      const { compressor } = settings
+      this.debug(
+        `🎛️ Master: ${compressor.enabled ? `compressor ${compressor.threshold}dB ${compressor.ratio}:1` : 'compressor off'}, ` +
+          `volume ${settings.volume}dB, ceiling ${settings.ceiling}dBFS`
+      )
+    } catch (error) {
+      this.debug(`❌ Master bus not changed: ${error instanceof Error ? error.message : error}`)
+    }
   }
 
-  setLightReverbDamping(damping: number) {
-    if (!this.initialized) return
-    this.lightReverbFilter.frequency.value = damping
-    this.debug(`☀️ Light damping: ${damping}Hz`)
+  getMasterBus(): MasterBusSettings {
+    return structuredClone(this.masterSettings)
   }
 
-  setLightReverbEarlyLateBalance(balance: number) {
-    if (!this.initialized) return
-    const early = balance / 100
-    const late = 1 - early
-    this.lightEarlyGain.gain.value = early
-    this.lightLateGain.gain.value = late
-    this.debug(`☀️ Light early/late: ${balance}%`)
+  // Levels at the master output, for the UI's meter to poll; null before initialize
+  getMeterReading(): MeterReading | null {
+    return this.master?.read() ?? null
   }
 
-  setLightReverbStereoWidth(width: number) {
-    if (!this.initialized) return
-    const panValue = (width - 100) / 100
-    this.lightStereoWidener.pan.value = Math.max(-1, Math.min(1, panValue))
-    this.debug(`☀️ Light width: ${width}%`)
+  // The master output's analyser (see visualizer.ts); null before initialize
+  getOutputAnalyser(): AnalyserNode | null {
+    return this.master?.analyser ?? null
   }
 
-
   // Synth controls
   setKickPitchDecay(decay: number) {
+    this.rememberSetting('setKickPitchDecay', engine => engine.setKickPitchDecay(decay))
+    if (!this.initialized) return
     this.kickSynth.pitchDecay = decay
   }
 
   setKickOctaves(octaves: number) {
+    this.rememberSetting('setKickOctaves', engine => engine.setKickOctaves(octaves))
+    if (!this.initialized) return
     this.kickSynth.octaves = octaves
   }
 
   setHihatResonance(resonance: number) {
+    this.rememberSetting('setHihatResonance', engine => engine.setHihatResonance(resonance))
+    if (!this.initialized) return
     this.hihatSynth.resonance = resonance
   }
 
   setHihatFrequency(frequency: number) {
+    this.rememberSetting('setHihatFrequency', engine => engine.setHihatFrequency(frequency))
+    if (!this.initialized) return
     this.hihatSynth.frequency.value = frequency
   }
 
@@ -598,6 +785,7 @@ export class AudioEngine {
     sustain: number
     release: number
   }) {
+    this.rememberSetting('setDarkSynthEnvelope', engine => engine.setDarkSynthEnvelope(envelope))
     if (!this.initialized || !this.melodySynthDark) return
     this.melodySynthDark.set({ envelope })
     this.debug(`🌙 Dark synth envelope updated`)
@@ -608,6 +796,7 @@ export class AudioEngine {
     type: 'sine' | 'square' | 'sawtooth' | 'triangle'
     partialCount?: number
   }) {
+    this.rememberSetting('setDarkSynthOscillator', engine => engine.setDarkSynthOscillator(oscillator))
     if (!this.initialized || !this.melodySynthDark) return
     this.melodySynthDark.set({ oscillator })
     this.debug(`🌙 Dark synth oscillator: ${oscillator.type}`)
@@ -620,6 +809,7 @@ export class AudioEngine {
     sustain: number
     release: number
   }) {
+    this.rememberSetting('setLightSynthEnvelope', engine => engine.setLightSynthEnvelope(envelope))
     if (!this.initialized || !this.melodySynthLight) return
     this.melodySynthLight.set({ envelope })
     this.debug(`☀️ Light synth envelope updated`)
@@ -630,6 +820,7 @@ export class AudioEngine {
     type: 'sine' | 'square' | 'sawtooth' | 'triangle'
     partialCount?: number
   }) {
+    this.rememberSetting('setLightSynthOscillator', engine => engine.setLightSynthOscillator(oscillator))
     if (!this.initialized || !this.melodySynthLight) return
     this.melodySynthLight.set({ oscillator })
     this.debug(`☀️ Light synth oscillator: ${oscillator.type}`)
@@ -637,6 +828,7 @@ export class AudioEngine {
 
   // Dark synth portamento control
   setDarkSynthPortamento(portamento: number) {
+    this.rememberSetting('setDarkSynthPortamento', engine => engine.setDarkSynthPortamento(portamento))
     if (!this.initialized || !this.melodySynthDark) return
     this.melodySynthDark.set({ portamento })
     this.debug(`🌙 Dark synth portamento: ${portamento}s`)
@@ -644,6 +836,7 @@ export class AudioEngine {
 
   // Dark synth detune control
   setDarkSynthDetune(detune: number) {
+    this.rememberSetting('setDarkSynthDetune', engine => engine.setDarkSynthDetune(detune))
     if (!this.initialized || !this.melodySynthDark) return
     this.melodySynthDark.set({ detune })
     this.debug(`🌙 Dark synth detune: ${detune} cents`)
@@ -651,6 +844,7 @@ export class AudioEngine {
 
   // Light synth portamento control
   setLightSynthPortamento(portamento: number) {
+    this.rememberSetting('setLightSynthPortamento', engine => engine.setLightSynthPortamento(portamento))
     if (!this.initialized || !this.melodySynthLight) return
     this.melodySynthLight.set({ portamento })
     this.debug(`☀️ Light synth portamento: ${portamento}s`)
@@ -658,6 +852,7 @@ export class AudioEngine {
 
   // Light synth detune control
   setLightSynthDetune(detune: number) {
+    this.rememberSetting('setLightSynthDetune', engine => engine.setLightSynthDetune(detune))
     if (!this.initialized || !this.melodySynthLight) return
     this.melodySynthLight.set({ detune })
     this.debug(`☀️ Light synth detune: ${detune} cents`)
@@ -665,8 +860,10 @@ export class AudioEngine {
   
   // Music theory controls
   setMusicalKey(key: string) {
+    this.rememberSetting('setMusicalKey', engine => engine.setMusicalKey(key))
     try {
       this.musicTheory.setKey(key)
+      this.keyChangeCallback?.(this.musicTheory.getKeyCenter())
       this.debug(`🎵 Key changed to: ${key}`)
       this.debug(`🎵 New scale notes: ${this.musicTheory.getCurrentScaleNotes().join(', ')}`)
     } catch (error) {
@@ -675,8 +872,10 @@ export class AudioEngine {
   }
   
   setMusicalMode(mode: string) {
+    this.rememberSetting('setMusicalMode', engine => engine.setMusicalMode(mode))
     try {
-      this.musicTheory.setMode(mode as any) // Type assertion needed due to string input
+      this.musicTheory.setMode(mode as ModeType) // Unknown modes throw below
+      this.keyChangeCallback?.(this.musicTheory.getKeyCenter())
       const settings = this.musicTheory.getCurrentSettings()
       this.debug(`🎵 Mode changed to: ${mode} (${settings.modeCharacter})`)
       this.debug(`🎵 New scale notes: ${settings.scaleNotes.join(', ')}`)
@@ -686,33 +885,163 @@ export class AudioEngine {
   }
   
   setMusicalScale(scale: string) {
-    this.musicTheory.setScale(scale)
-    this.debug(`🎵 Scale type changed to: ${scale}`)
+    this.rememberSetting('setMusicalScale', engine => engine.setMusicalScale(scale))
+    try {
+      this.musicTheory.setScale(scale as ScaleType)
+      this.debug(`🎵 Scale type changed to: ${scale}`)
+      this.debug(`🎵 New scale notes: ${this.musicTheory.getCurrentScaleNotes().join(', ')}`)
+    } catch (error) {
+      this.debug(`❌ Invalid scale: ${scale} - ${error}`)
+    }
   }
   
   setMusicalChord(chord: string) {
+    this.rememberSetting('setMusicalChord', engine => engine.setMusicalChord(chord))
     this.musicTheory.setChord(chord)
     this.debug(`🎵 Chord type changed to: ${chord}`)
   }
   
-  // Get current music theory settings
-  getMusicTheorySettings() {
-    return this.musicTheory.getCurrentSettings()
+  setVoiceLeading(settings: VoiceLeadingSettings) {
+    this.rememberSetting('setVoiceLeading', engine => engine.setVoiceLeading(settings))
+    try {
+      this.musicTheory.setVoiceLeading(settings)
+      this.debug(`🎵 Voice leading: ${settings.enabled ? `${settings.voicing}, MIDI ${settings.lowest}-${settings.highest}` : 'off'}`)
+    } catch (error) {
+      this.debug(`❌ Invalid voice leading: ${error}`)
+    }
   }
   
-  // Calculate volume scaling for polyphonic playback
-  private calculatePolyphonicVolume(baseVolume: number, noteCount: number): number {
-    if (noteCount <= 1) {
-      return baseVolume // No scaling needed for single notes
+  getVoiceLeading() {
+    return this.musicTheory.getVoiceLeading()
+  }
+  
+  // Start voice leading afresh, e.g. when playback restarts
+  resetVoiceLeading() {
+    this.musicTheory.resetVoiceLeading()
+  }
+  
+  // Digit-driven key changes (see harmonicJourney.ts)
+  setHarmonicJourney(settings: HarmonicJourneySettings) {
+    this.rememberSetting('setHarmonicJourney', engine => engine.setHarmonicJourney(settings))
+    try {
+      this.musicTheory.setHarmonicJourney(settings)
+      this.keyChangeCallback?.(this.musicTheory.getKeyCenter())
+      this.debug(`🧭 Harmonic journey: ${settings.enabled ? `every ${settings.every || '-'} digits${settings.pattern ? `, on "${settings.pattern}"` : ''}, moves ${settings.moves.join('/')}` : 'off'}`)
+    } catch (error) {
+      this.debug(`❌ Invalid harmonic journey: ${error}`)
     }
-    
-    // Logarithmic volume scaling - more musical than linear
-    // Each additional note reduces volume by ~3dB (half the perceived loudness)
-    const volumeReduction = Math.log2(noteCount) * 3
-    const scaledVolume = baseVolume - volumeReduction
-    
-    // Ensure we don't go below -30dB (too quiet) or above 0dB (clipping)
-    return Math.max(-30, Math.min(0, scaledVolume))
+  }
+  
+  getHarmonicJourney() {
+    return this.musicTheory.getHarmonicJourney()
+  }
+  
+  // Back to the selected key, e.g. when playback restarts
+  resetHarmonicJourney() {
+    this.musicTheory.resetHarmonicJourney()
+    this.keyChangeCallback?.(this.musicTheory.getKeyCenter())
+  }
+  
+  // Called with the key center whenever it changes, journey moves included
+  setKeyChangeCallback(callback: (keyCenter: KeyCenter) => void) {
+    this.keyChangeCallback = callback
+  }
+  
+  // A copy of the music theory settings for exports (see MusicTheoryEngine.clone)
+  copyMusicTheory() {
+    return this.musicTheory.clone()
+  }
+  
+  // Custom instruments and per-digit routing (see instruments.ts)
+  setInstrumentKit(kit: InstrumentKit) {
+    this.rememberSetting('setInstrumentKit', engine => engine.setInstrumentKit(kit))
+    this.kit = structuredClone(kit)
+    this.instruments?.sync(this.kit.instruments)
+    this.debug(`🎛️ Kit: ${kit.instruments.length} instrument(s), ${Object.keys(kit.routes).length} routed digit(s)`)
+  }
+  
+  getInstrumentKit(): InstrumentKit {
+    return structuredClone(this.kit)
+  }
+  
+  // Resolves once sampler instruments have their samples and reverbs their recorded
+  // impulses (loads that fail are skipped)
+  async whenLoaded() {
+    await Promise.all([this.instruments?.loaded(), ...this.pendingLoads])
+  }
+  
+  // Alternate tunings for the melody synths (see tuning.ts). MIDI output stays 12-TET
+  setTuning(settings: TuningSettings) {
+    this.rememberSetting('setTuning', engine => engine.setTuning(settings))
+    try {
+      this.musicTheory.setTuning(settings)
+      this.debug(`🎚️ Tuning: ${settings.kind === 'scala' ? settings.scala?.name : settings.kind === 'edo' ? `${settings.edo}-EDO` : settings.kind === 'just' ? settings.just : '12-TET'}`)
+    } catch (error) {
+      this.debug(`❌ Invalid tuning: ${error}`)
+    }
+  }
+  
+  getTuning() {
+    return this.musicTheory.getTuning()
+  }
+  
+  // Repeats, runs, palindromes and custom substrings (see patternDetector.ts)
+  setPatternDetection(settings: PatternDetectionSettings) {
+    this.rememberSetting('setPatternDetection', engine => engine.setPatternDetection(settings))
+    this.patterns.setSettings(settings)
+    this.debug(`✨ Pattern detection: ${settings.enabled ? Object.entries(settings.events).map(([kind, event]) => `${kind}=${event}`).join(', ') : 'off'}`)
+  }
+  
+  getPatternDetection() {
+    return this.patterns.getSettings()
+  }
+  
+  resetPatternDetection() {
+    this.patterns.reset()
+  }
+  
+  // Called with the patterns ending on each digit, on the frame the digit sounds
+  setPatternCallback(callback: (matches: PatternMatch[]) => void) {
+    this.patternCallback = callback
+  }
+  
+  // What 0, 1, 00 and 11 do to the notes that follow (see modifiers.ts)
+  setModifiers(settings: ModifierSettings) {
+    this.rememberSetting('setModifiers', engine => engine.setModifiers(settings))
+    this.modifiers.setSettings(settings)
+    this.debug(`🎛️ Modifiers: ${Object.entries(settings.effects).map(([trigger, effect]) => `${trigger}=${effect}`).join(', ')}`)
+  }
+  
+  getModifiers() {
+    return this.modifiers.getSettings()
+  }
+  
+  resetModifiers() {
+    this.modifiers.reset()
+  }
+  
+  // Number base of the digits passed to playDigit (see radixMapping)
+  setRadix(radix: number) {
+    this.rememberSetting('setRadix', engine => engine.setRadix(radix))
+    this.radix = radix
+    this.debug(`🔢 Digit base changed to: ${radix}`)
+  }
+  
+  // What each digit plays in every base (see radixMapping)
+  setRadixRoles(roles: RadixRoles) {
+    validateRadixRoles(roles)
+    this.rememberSetting('setRadixRoles', engine => engine.setRadixRoles(roles))
+    this.radixRoles = structuredClone(roles)
+    this.debug('🔢 Digit roles updated')
+  }
+  
+  getRadixRoles(): RadixRoles {
+    return structuredClone(this.radixRoles)
+  }
+  
+  // Get current music theory settings
+  getMusicTheorySettings() {
+    return this.musicTheory.getCurrentSettings()
   }
   
   // Test the music theory mapping
@@ -737,23 +1066,14 @@ export class AudioEngine {
         const noteDisplay = isChord ? `[${chordNotes.join(', ')}]` : chordNotes[0]
         
         setTimeout(() => {
-          // Apply volume scaling for test too
-          const noteCount = chordNotes.length
-          const scaledVolume = this.calculatePolyphonicVolume(-6, noteCount)
-          const originalVolume = activeSynth.volume.value
-          
-          activeSynth.volume.rampTo(scaledVolume, 0.01)
-          
+          const pitches = this.musicTheory.tunePitches({ type: 'degree', degree: digit - 2 }, chordNotes)
           if (isChord) {
-            activeSynth.triggerAttackRelease(chordNotes, '4n')
+            activeSynth.triggerAttackRelease(pitches, '4n')
           } else {
-            activeSynth.triggerAttackRelease(chordNotes[0], '4n')
+            activeSynth.triggerAttackRelease(pitches[0], '4n')
           }
-          
-          // Restore volume
-          setTimeout(() => activeSynth.volume.rampTo(originalVolume, 0.1), 500)
-          
-          this.debug(`🎵 ${digit} → ${noteDisplay} (vol: ${scaledVolume.toFixed(1)}dB)`)
+
+          this.debug(`🎵 ${digit} → ${noteDisplay}`)
         }, (digit - 2) * 500) // 500ms between chords (longer for chords)
       }
     }
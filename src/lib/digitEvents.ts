@@ -0,0 +1,95 @@
+import type { DigitRoute, InstrumentKit } from './instruments'
+import type { ModifierEffect, ModifierLayer } from './modifiers'
+import type { JourneyStep, MusicTheoryEngine } from './musicTheory'
+import type { PatternDetector, PatternEvent, PatternMatch } from './patternDetector'
+import { digitRole, type DigitRole, type RadixRoles } from './radixMapping'
+
+// What digits do, worked out once for live playback (AudioEngine) and the MIDI
+// export, which only differ in how they sound it. Nothing here touches audio; the
+// theory, modifier and pattern state passed in moves on as digits go by
+
+export type Theme = 'dark' | 'light'
+
+export interface DigitWatcher {
+  theory: MusicTheoryEngine
+  patterns: PatternDetector
+  radix: number
+  radixRoles: RadixRoles
+}
+
+export interface WatchedPattern {
+  match: PatternMatch
+  event: PatternEvent
+  keyChange: JourneyStep | null // The modulation a keyChange event made
+}
+
+export interface WatchedDigit {
+  journeyStep: JourneyStep | null // Harmonic journey move landing on this digit
+  matches: PatternMatch[] // All of them, for the pattern display
+  newPatterns: WatchedPattern[] // Matches seen for the first time, with their events
+}
+
+// Every digit of the stream at its stream index, tied repeats included. Modulates
+// before the digit sounds, so the one landing the move plays in the new key
+export function watchStreamDigit(digit: string, index: number, watcher: DigitWatcher): WatchedDigit {
+  const { theory, patterns, radix, radixRoles } = watcher
+  const journeyStep = digitRole(digit, radix, radixRoles) ? theory.advanceJourney(digit) : null
+
+  const matches = patterns.push(digit, index)
+  const events = patterns.getSettings().events
+  const newPatterns = matches
+    .filter(match => match.isNew)
+    .map((match): WatchedPattern => {
+      const event = events[match.kind]
+      return { match, event, keyChange: event === 'keyChange' ? theory.modulate(digit) : null }
+    })
+
+  return { journeyStep, matches, newPatterns }
+}
+
+export interface DigitPlayer {
+  theory: MusicTheoryEngine
+  modifiers: ModifierLayer
+  kit: InstrumentKit
+  theme: Theme // Theme before the digit
+}
+
+export type DigitSound =
+  | { kind: 'drum'; drum: 'kick' | 'hihat' }
+  | { kind: 'melody'; notes: string[] } // On the theme's melody synth
+  // Melodic routes play the digit's chord; hits (and drum digits) the route's note
+  | { kind: 'route'; route: DigitRoute; notes: string[]; melodic: boolean }
+
+export interface DigitEvents {
+  sound: DigitSound
+  theme: Theme // Theme after the digit; drum digits switch it
+  modifier: ModifierEffect // What a drum digit triggers, 'none' otherwise
+}
+
+function isPitchedRole(role: DigitRole): boolean {
+  return role.type === 'degree' || role.type === 'chromatic'
+}
+
+// The digit's chord through voice leading and any active note modifier
+function chordFor(role: DigitRole, player: DigitPlayer): string[] {
+  return player.modifiers.onNotes(player.theory.voiceLeadChord(player.theory.roleToNotes(role)))
+}
+
+// What a sounding digit plays. Drum digits switch the theme and trigger their
+// modifier whatever plays them, routed or not
+export function digitEvents(digit: string, role: DigitRole, player: DigitPlayer): DigitEvents {
+  const isDrum = role.type === 'kick' || role.type === 'hihat'
+  const theme = isDrum ? (role.type === 'kick' ? 'dark' : 'light') : player.theme
+  const modifier = isDrum ? player.modifiers.onDrum(role.type) : 'none'
+
+  // Digits routed in the kit play only their instrument
+  const route = player.kit.routes[digit]
+  if (route) {
+    const melodic = route.play === 'melody' && isPitchedRole(role)
+    const notes = melodic ? chordFor(role, player) : [route.note]
+    return { sound: { kind: 'route', route, notes, melodic }, theme, modifier }
+  }
+
+  if (isDrum) return { sound: { kind: 'drum', drum: role.type }, theme, modifier }
+  return { sound: { kind: 'melody', notes: chordFor(role, player) }, theme, modifier }
+}
@@ -0,0 +1,193 @@
+import { digitsFrom as piDigitsFrom, ensurePiDigits, evaluatePi, guardDigitsFor } from './piGenerator'
+import { createSeededRandom } from './random'
+
+// Anything that can feed digits into AudioEngine.playDigit
+export interface DigitSource {
+  readonly label: string
+  // Shown before the first digit, e.g. "3." for pi (or "11." in binary)
+  readonly prefix: string
+  // Number of digits available (Infinity for endless sources)
+  readonly length: number
+  // `count` digits (upper-case symbols of the source's radix) starting at place
+  // `offset` after the point (1-based); fewer at the end of a finite source
+  digitsFrom(offset: number, count: number): string
+  // Expensive sources: make sure at least `length` digits are computed, return how many are
+  ensure?(length: number): number
+}
+
+// Serialisable description of a source, so the worker can build its own copy
+export type DigitSourceConfig =
+  | { kind: 'pi' }
+  | { kind: 'e' }
+  | { kind: 'sqrt2' }
+  | { kind: 'phi' }
+  | { kind: 'tau' }
+  | { kind: 'custom'; digits: string }
+  | { kind: 'random'; seed: number }
+
+export type DigitSourceKind = DigitSourceConfig['kind']
+
+export const DIGIT_SOURCE_LABELS: Record<DigitSourceKind, string> = {
+  pi: 'π (pi)',
+  e: 'e (Euler)',
+  sqrt2: '√2',
+  phi: 'φ (golden ratio)',
+  tau: 'τ (2π)',
+  custom: 'Pasted digits',
+  random: 'Seeded random',
+}
+
+// Smallest amount computed at once, so tiny requests don't trigger lots of recomputes
+const MIN_PRECISION = 1000
+
+// Integer square root by Newton's method
+function bigintSqrt(value: bigint): bigint {
+  if (value < 2n) return value
+
+  let x = value
+  let y = (x + 1n) / 2n
+  while (y < x) {
+    x = y
+    y = (x + value / x) / 2n
+  }
+  return x
+}
+
+// Constants evaluated in fixed point: each receives radix^precision and returns
+// the constant scaled by it
+const CONSTANTS = {
+  // e = sum of 1/k!
+  e: { integerPart: 2, evaluate: (unity: bigint) => {
+    let sum = 0n
+    let term = unity
+    for (let k = 1n; term !== 0n; k++) {
+      sum += term
+      term /= k
+    }
+    return sum
+  } },
+  sqrt2: { integerPart: 1, evaluate: (unity: bigint) => bigintSqrt(2n * unity * unity) },
+  // φ = (1 + √5) / 2
+  phi: { integerPart: 1, evaluate: (unity: bigint) => (unity + bigintSqrt(5n * unity * unity)) / 2n },
+  // τ = 2π
+  tau: { integerPart: 6, evaluate: (unity: bigint) => 2n * evaluatePi(unity) },
+}
+
+type ConstantKind = keyof typeof CONSTANTS
+
+// First `count` fractional digits of a constant in the given radix
+function computeConstantDigits(kind: ConstantKind, count: number, radix: number): string {
+  const { integerPart, evaluate } = CONSTANTS[kind]
+  const base = BigInt(radix)
+  const guard = guardDigitsFor(radix)
+  const truncated = evaluate(base ** BigInt(count + guard)) / base ** BigInt(guard)
+
+  const integerLength = integerPart.toString(radix).length
+  return truncated.toString(radix).toUpperCase().slice(integerLength, integerLength + count)
+}
+
+// Irrational constant with a lazily extended digit cache
+class ConstantDigitSource implements DigitSource {
+  readonly length = Infinity
+  readonly label: string
+  readonly prefix: string
+  private digits = ''
+
+  constructor(
+    private readonly kind: ConstantKind,
+    private readonly radix: number
+  ) {
+    this.label = DIGIT_SOURCE_LABELS[kind]
+    this.prefix = `${CONSTANTS[kind].integerPart.toString(radix)}.`
+  }
+
+  ensure(length: number): number {
+    if (length > this.digits.length) {
+      // Double the precision so recomputing from scratch stays amortised
+      const count = Math.max(length, this.digits.length * 2, MIN_PRECISION)
+      this.digits = computeConstantDigits(this.kind, count, this.radix)
+    }
+    return this.digits.length
+  }
+
+  digitsFrom(offset: number, count: number): string {
+    this.ensure(offset - 1 + count)
+    return this.digits.slice(offset - 1, offset - 1 + count)
+  }
+}
+
+// Pi reads from the shared cache in piGenerator, which is seeded with verified digits
+function createPiSource(radix: number): DigitSource {
+  return {
+    label: DIGIT_SOURCE_LABELS.pi,
+    prefix: `${(3).toString(radix)}.`,
+    length: Infinity,
+    digitsFrom: (offset, count) => piDigitsFrom(offset, count, radix),
+    ensure: (length) => ensurePiDigits(length, radix),
+  }
+}
+
+// One instance per constant and radix so every lookup shares the cache
+const constantSources = new Map<string, DigitSource>()
+
+function getConstantSource(kind: 'pi' | ConstantKind, radix: number): DigitSource {
+  const key = `${kind}:${radix}`
+  let source = constantSources.get(key)
+  if (!source) {
+    source = kind === 'pi' ? createPiSource(radix) : new ConstantDigitSource(kind, radix)
+    constantSources.set(key, source)
+  }
+  return source
+}
+
+// Keep only the symbols that are valid digits in the radix, upper-cased
+function filterDigits(text: string, radix: number): string {
+  return Array.from(text.toUpperCase())
+    .filter(char => /[0-9A-Z]/.test(char) && parseInt(char, 36) < radix)
+    .join('')
+}
+
+// User-pasted digits, e.g. "2.71828..." or a plain run of digits
+function createCustomSource(text: string, radix: number): DigitSource {
+  const pointIndex = text.indexOf('.')
+  const integerPart = pointIndex === -1 ? '' : filterDigits(text.slice(0, pointIndex), radix)
+  const digits = filterDigits(pointIndex === -1 ? text : text.slice(pointIndex + 1), radix)
+
+  return {
+    label: DIGIT_SOURCE_LABELS.custom,
+    prefix: integerPart ? `${integerPart}.` : '',
+    length: digits.length,
+    digitsFrom: (offset, count) => digits.slice(offset - 1, offset - 1 + count),
+  }
+}
+
+// Uniform pseudo-random digits, reproducible from the seed
+function createRandomSource(seed: number, radix: number): DigitSource {
+  return {
+    label: DIGIT_SOURCE_LABELS.random,
+    prefix: '',
+    length: Infinity,
+    digitsFrom: (offset, count) => {
+      // Replay the sequence from the seed, skipping everything before `offset`
+      const random = createSeededRandom(seed)
+      for (let i = 1; i < offset; i++) random()
+
+      let result = ''
+      for (let i = 0; i < count; i++) {
+        result += Math.floor(random() * radix).toString(radix).toUpperCase()
+      }
+      return result
+    },
+  }
+}
+
+export function createDigitSource(config: DigitSourceConfig, radix = 10): DigitSource {
+  switch (config.kind) {
+    case 'custom':
+      return createCustomSource(config.digits, radix)
+    case 'random':
+      return createRandomSource(config.seed, radix)
+    default:
+      return getConstantSource(config.kind, radix)
+  }
+}
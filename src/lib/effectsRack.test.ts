@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_EFFECTS_RACK, validateEffectsRack, type EffectType } from './effectsRack'
+
+describe('validateEffectsRack', () => {
+  it('accepts the defaults and any reordering', () => {
+    expect(() => validateEffectsRack(DEFAULT_EFFECTS_RACK)).not.toThrow()
+    expect(() =>
+      validateEffectsRack({ ...DEFAULT_EFFECTS_RACK, order: [...DEFAULT_EFFECTS_RACK.order].reverse() })
+    ).not.toThrow()
+  })
+
+  it('rejects orders that skip or repeat an effect', () => {
+    const [first, ...rest] = DEFAULT_EFFECTS_RACK.order
+    expect(() => validateEffectsRack({ ...DEFAULT_EFFECTS_RACK, order: rest })).toThrow('Effect order must list')
+    expect(() => validateEffectsRack({ ...DEFAULT_EFFECTS_RACK, order: [first, first, ...rest.slice(1)] })).toThrow(
+      'Effect order must list'
+    )
+  })
+
+  it('rejects unknown bypassed effects, a bad filter frequency and runaway feedback', () => {
+    expect(() => validateEffectsRack({ ...DEFAULT_EFFECTS_RACK, bypassed: ['flanger' as EffectType] })).toThrow(
+      'Unknown effect: flanger'
+    )
+    expect(() =>
+      validateEffectsRack({ ...DEFAULT_EFFECTS_RACK, filter: { ...DEFAULT_EFFECTS_RACK.filter, frequency: 0 } })
+    ).toThrow('Invalid filter frequency')
+    expect(() =>
+      validateEffectsRack({ ...DEFAULT_EFFECTS_RACK, delay: { ...DEFAULT_EFFECTS_RACK.delay, feedback: 1 } })
+    ).toThrow('Delay feedback')
+  })
+})
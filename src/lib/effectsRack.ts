@@ -0,0 +1,142 @@
+import { Chorus, Distortion, Filter, Gain, PingPongDelay, type ToneAudioNode, type Unit } from 'tone'
+import defaults from '../config/defaults.json'
+
+// A theme's effects chain. Its voices feed the rack's input; each effect runs in
+// series in the chosen order, and bypassed ones are left out of the chain
+
+export type EffectType = 'filter' | 'distortion' | 'chorus' | 'delay' | 'reverb'
+
+export type RackFilterType = 'lowpass' | 'highpass' | 'bandpass'
+
+export interface EffectsRackSettings {
+  order: EffectType[] // Every effect once, first to last
+  bypassed: EffectType[]
+  filter: { type: RackFilterType; frequency: number; Q: number }
+  distortion: { amount: number; wet: number } // amount 0-1
+  chorus: { frequency: number; delayTime: number; depth: number; wet: number } // delayTime in ms
+  delay: { delayTime: Unit.Time; feedback: number; wet: number } // delayTime follows the tempo for note values like "16n"
+}
+
+export const EFFECT_LABELS: Record<EffectType, string> = {
+  filter: 'Filter',
+  distortion: 'Distortion',
+  chorus: 'Chorus',
+  delay: 'Ping-pong delay',
+  reverb: 'Reverb',
+}
+
+const EFFECT_TYPES = Object.keys(EFFECT_LABELS) as EffectType[]
+
+// Defaults come from src/config/defaults.json (audio.effects, audio.delay, ...)
+export const DEFAULT_EFFECTS_RACK: EffectsRackSettings = {
+  order: defaults.audio.effects.order as EffectType[],
+  bypassed: defaults.audio.effects.bypassed as EffectType[],
+  filter: { ...defaults.audio.filter, type: defaults.audio.filter.type as RackFilterType },
+  distortion: { ...defaults.audio.distortion },
+  chorus: { ...defaults.audio.chorus },
+  delay: { ...defaults.audio.delay },
+}
+
+// Throws if settings can't be applied, e.g. an order that skips or repeats an effect
+export function validateEffectsRack(settings: EffectsRackSettings) {
+  const { order, bypassed } = settings
+  if (order.length !== EFFECT_TYPES.length || EFFECT_TYPES.some(type => !order.includes(type))) {
+    throw new Error(`Effect order must list each of ${EFFECT_TYPES.join(', ')} once`)
+  }
+  const unknown = bypassed.find(type => !EFFECT_TYPES.includes(type))
+  if (unknown) throw new Error(`Unknown effect: ${unknown}`)
+  if (!(settings.filter.frequency > 0)) throw new Error(`Invalid filter frequency: ${settings.filter.frequency}`)
+  if (settings.delay.feedback < 0 || settings.delay.feedback >= 1) {
+    throw new Error(`Delay feedback must be at least 0 and below 1: ${settings.delay.feedback}`)
+  }
+}
+
+// A place in the chain. The engine's reverb is one too: its input passes the dry
+// signal through to its output along with the reverb
+export interface RackNode {
+  input: ToneAudioNode
+  output: ToneAudioNode
+}
+
+export class EffectsRack {
+  readonly input = new Gain()
+  readonly output = new Gain()
+  private readonly filter = new Filter()
+  private readonly distortion = new Distortion()
+  private readonly chorus = new Chorus().start()
+  private readonly delay = new PingPongDelay({ maxDelay: 2 }) // Room for a dotted quarter at slow tempos
+  private settings: EffectsRackSettings = DEFAULT_EFFECTS_RACK
+
+  constructor(private readonly reverb: RackNode) {
+    this.apply(this.settings)
+  }
+
+  setSettings(settings: EffectsRackSettings) {
+    validateEffectsRack(settings)
+    this.apply(structuredClone(settings))
+  }
+
+  getSettings(): EffectsRackSettings {
+    return structuredClone(this.settings)
+  }
+
+  // Note-value delay times are converted at the Transport's tempo when set, so
+  // they need setting again once the tempo changes
+  retime() {
+    this.delay.delayTime.value = this.settings.delay.delayTime
+  }
+
+  private apply(settings: EffectsRackSettings) {
+    this.settings = settings
+    this.filter.set(settings.filter)
+    this.distortion.distortion = settings.distortion.amount
+    this.distortion.wet.value = settings.distortion.wet
+    this.chorus.frequency.value = settings.chorus.frequency
+    this.chorus.delayTime = settings.chorus.delayTime
+    this.chorus.depth = settings.chorus.depth
+    this.chorus.wet.value = settings.chorus.wet
+    this.delay.delayTime.value = settings.delay.delayTime
+    this.delay.feedback.value = settings.delay.feedback
+    this.delay.wet.value = settings.delay.wet
+    this.wire()
+  }
+
+  private node(type: EffectType): RackNode {
+    switch (type) {
+      case 'filter':
+        return { input: this.filter, output: this.filter }
+      case 'distortion':
+        return { input: this.distortion, output: this.distortion }
+      case 'chorus':
+        return { input: this.chorus, output: this.chorus }
+      case 'delay':
+        return { input: this.delay, output: this.delay }
+      case 'reverb':
+        return this.reverb
+    }
+  }
+
+  // Reconnect input -> active effects in order -> output
+  private wire() {
+    this.input.disconnect()
+    for (const type of EFFECT_TYPES) this.node(type).output.disconnect()
+
+    let previous: ToneAudioNode = this.input
+    for (const type of this.settings.order) {
+      if (this.settings.bypassed.includes(type)) continue
+      const node = this.node(type)
+      previous.connect(node.input)
+      previous = node.output
+    }
+    previous.connect(this.output)
+  }
+
+  dispose() {
+    this.input.dispose()
+    this.output.dispose()
+    this.filter.dispose()
+    this.distortion.dispose()
+    this.chorus.dispose()
+    this.delay.dispose()
+  }
+}
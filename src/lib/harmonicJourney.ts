@@ -0,0 +1,86 @@
+// Harmonic journey: over long stretches the digit stream also modulates the key,
+// every so many digits or when a chosen digit pattern comes up
+
+export type JourneyMove =
+  | 'fifthUp' // Clockwise round the circle of fifths (C -> G)
+  | 'fifthDown' // Anticlockwise (C -> F)
+  | 'relative' // Major <-> minor with the same notes (C ionian -> A aeolian)
+  | 'parallel' // Major <-> minor on the same root (C ionian -> C aeolian)
+
+export interface HarmonicJourneySettings {
+  enabled: boolean // Off stays in the selected key
+  every: number // Digits between modulations; 0 modulates on the pattern only
+  pattern: string // Digit run that also modulates, e.g. "999"; '' for none
+  moves: JourneyMove[] // Moves to choose from; the digit landing the modulation picks one
+}
+
+export const DEFAULT_HARMONIC_JOURNEY: HarmonicJourneySettings = {
+  enabled: false,
+  every: 64,
+  pattern: '',
+  moves: ['fifthUp', 'fifthDown', 'relative', 'parallel'],
+}
+
+export const JOURNEY_MOVE_LABELS: Record<JourneyMove, string> = {
+  fifthUp: 'Fifth up',
+  fifthDown: 'Fifth down',
+  relative: 'Relative',
+  parallel: 'Parallel',
+}
+
+// What set off a modulation: the interval, the journey's pattern, or a pattern
+// event from the detector (see patternDetector.ts)
+export type JourneyTrigger = 'every' | 'pattern' | 'detector'
+
+// Counts digits and watches for the pattern; knows nothing about keys, so the
+// music theory engine applies the moves it returns
+export class HarmonicJourney {
+  private settings: HarmonicJourneySettings
+  private digitsSinceMove = 0
+  private recent = '' // Last few digits, as long as the pattern
+
+  constructor(settings: HarmonicJourneySettings = DEFAULT_HARMONIC_JOURNEY) {
+    this.settings = { ...settings, moves: [...settings.moves] }
+  }
+
+  setSettings(settings: HarmonicJourneySettings) {
+    this.settings = { ...settings, moves: [...settings.moves] }
+    this.reset()
+  }
+
+  getSettings(): HarmonicJourneySettings {
+    return { ...this.settings, moves: [...this.settings.moves] }
+  }
+
+  reset() {
+    this.digitsSinceMove = 0
+    this.recent = ''
+  }
+
+  // A digit played; returns the move to make before it sounds, if any
+  onDigit(digit: string): { move: JourneyMove; trigger: JourneyTrigger } | null {
+    const { enabled, every, pattern, moves } = this.settings
+    if (!enabled || moves.length === 0) return null
+
+    this.digitsSinceMove++
+    this.recent = (this.recent + digit).slice(-Math.max(pattern.length, 1))
+
+    let trigger: JourneyTrigger | null = null
+    if (pattern && this.recent === pattern) trigger = 'pattern'
+    else if (every > 0 && this.digitsSinceMove >= every) trigger = 'every'
+    if (!trigger) return null
+
+    // Don't let the run that just matched overlap into the next match
+    this.digitsSinceMove = 0
+    this.recent = ''
+
+    return { move: this.pickMove(digit), trigger }
+  }
+
+  // The move a digit picks from those allowed
+  pickMove(digit: string): JourneyMove {
+    const moves = this.settings.moves.length > 0 ? this.settings.moves : DEFAULT_HARMONIC_JOURNEY.moves
+    const value = parseInt(digit, 36)
+    return moves[(Number.isNaN(value) ? 0 : value) % moves.length]
+  }
+}
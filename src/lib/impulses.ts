@@ -0,0 +1,68 @@
+// Impulse responses for the reverb channels: the generated noise tail, bundled
+// recordings listed in public/impulses/impulses.json, or WAV files the user uploads
+
+export interface BundledImpulse {
+  id: string
+  name: string
+  url: string
+}
+
+export type ImpulseSource = { kind: 'synthetic' } | { kind: 'bundled'; id: string } | { kind: 'file'; name: string }
+
+const IMPULSES_URL = '/impulses/impulses.json'
+
+export async function loadBundledImpulses(): Promise<BundledImpulse[]> {
+  const response = await fetch(IMPULSES_URL)
+  if (!response.ok) throw new Error(`Couldn't load ${IMPULSES_URL}: ${response.status}`)
+  const { impulses } = (await response.json()) as { impulses: BundledImpulse[] }
+  return impulses
+}
+
+// Uploads live in Cache Storage, like dropped samples, so they survive reloads
+const USER_IMPULSE_CACHE = 'pi-user-impulses'
+const USER_IMPULSE_PREFIX = '/user-impulses/'
+
+export async function storeImpulseFile(file: File): Promise<string> {
+  const cache = await caches.open(USER_IMPULSE_CACHE)
+  await cache.put(USER_IMPULSE_PREFIX + encodeURIComponent(file.name), new Response(file, { headers: { 'Content-Type': file.type } }))
+  return file.name
+}
+
+export async function removeImpulseFile(name: string) {
+  const cache = await caches.open(USER_IMPULSE_CACHE)
+  await cache.delete(USER_IMPULSE_PREFIX + encodeURIComponent(name))
+}
+
+// Names of the uploaded impulses still stored
+export async function listStoredImpulses(): Promise<string[]> {
+  const cache = await caches.open(USER_IMPULSE_CACHE)
+  const requests = await cache.keys()
+  return requests.map(request => decodeURIComponent(new URL(request.url).pathname.slice(USER_IMPULSE_PREFIX.length)))
+}
+
+// The encoded audio of a recorded impulse, for the channel to decode in its own context
+export async function fetchImpulse(source: Exclude<ImpulseSource, { kind: 'synthetic' }>): Promise<ArrayBuffer> {
+  if (source.kind === 'bundled') {
+    const impulse = (await loadBundledImpulses()).find(candidate => candidate.id === source.id)
+    if (!impulse) throw new Error(`No bundled impulse "${source.id}"`)
+    const response = await fetch(impulse.url)
+    if (!response.ok) throw new Error(`Couldn't load ${impulse.url}: ${response.status}`)
+    return response.arrayBuffer()
+  }
+
+  const cache = await caches.open(USER_IMPULSE_CACHE)
+  const response = await cache.match(USER_IMPULSE_PREFIX + encodeURIComponent(source.name))
+  if (!response) throw new Error(`Impulse ${source.name} is no longer stored - upload it again`)
+  return response.arrayBuffer()
+}
+
+export function describeImpulse(source: ImpulseSource): string {
+  switch (source.kind) {
+    case 'synthetic':
+      return 'generated'
+    case 'bundled':
+      return source.id
+    case 'file':
+      return source.name
+  }
+}
@@ -0,0 +1,257 @@
+import { AMSynth, FMSynth, MembraneSynth, MetalSynth, NoiseSynth, PolySynth, Sampler, Synth, ToneAudioBuffer } from 'tone'
+import { resolveSampleUrls, type SampleSource } from './samples'
+
+// Instrument kits: user-built instruments, and digits routed to them (or to the
+// built-in voices) instead of their usual kick/hi-hat/melody role
+
+export type InstrumentType = 'synth' | 'fm' | 'am' | 'membrane' | 'metal' | 'noise' | 'sampler'
+
+export type InstrumentBus = 'dark' | 'light' // Theme reverb an instrument feeds
+
+export interface InstrumentEnvelope {
+  attack: number
+  decay: number
+  sustain: number
+  release: number
+}
+
+export interface InstrumentConfig {
+  id: string
+  name: string
+  type: InstrumentType
+  bus: InstrumentBus
+  volume: number // dB
+  envelope: InstrumentEnvelope
+  harmonicity: number // FM, AM and metal
+  modulationIndex: number // FM and metal
+  samples?: SampleSource // Sampler only
+}
+
+export const INSTRUMENT_TYPE_LABELS: Record<InstrumentType, string> = {
+  synth: 'Synth',
+  fm: 'FM synth',
+  am: 'AM synth',
+  membrane: 'Membrane (drum)',
+  metal: 'Metal (cymbal)',
+  noise: 'Noise (snare/hat)',
+  sampler: 'Sampler (WAV/OGG)',
+}
+
+// The engine's own voices, which routes can point at too
+export const BUILT_IN_INSTRUMENTS = {
+  kick: 'Kick (built-in)',
+  hihat: 'Hi-hat (built-in)',
+  dark: 'Dark synth (built-in)',
+  light: 'Light synth (built-in)',
+} as const
+
+export type BuiltInInstrumentId = keyof typeof BUILT_IN_INSTRUMENTS
+
+export function isBuiltInInstrument(id: string): id is BuiltInInstrumentId {
+  return id in BUILT_IN_INSTRUMENTS
+}
+
+export interface DigitRoute {
+  instrumentId: string // An InstrumentConfig id or a built-in one
+  play: 'melody' | 'hit' // melody: the digit's chord or note; hit: always `note`
+  note: string // Pitch for hits (noise has none)
+}
+
+export interface InstrumentKit {
+  instruments: InstrumentConfig[]
+  routes: Record<string, DigitRoute> // Digit symbol -> route; unrouted digits keep their role
+}
+
+export const EMPTY_KIT: InstrumentKit = { instruments: [], routes: {} }
+
+// Starting parameters for each type, close to Tone's own defaults
+const TYPE_DEFAULTS: Record<InstrumentType, Omit<InstrumentConfig, 'id' | 'name' | 'type'>> = {
+  synth: { bus: 'light', volume: -8, envelope: { attack: 0.01, decay: 0.2, sustain: 0.5, release: 0.8 }, harmonicity: 1, modulationIndex: 1 },
+  fm: { bus: 'light', volume: -10, envelope: { attack: 0.01, decay: 0.3, sustain: 0.4, release: 1 }, harmonicity: 3, modulationIndex: 10 },
+  am: { bus: 'light', volume: -8, envelope: { attack: 0.02, decay: 0.3, sustain: 0.5, release: 1 }, harmonicity: 3, modulationIndex: 1 },
+  membrane: { bus: 'dark', volume: -6, envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 1.4 }, harmonicity: 1, modulationIndex: 1 },
+  metal: { bus: 'light', volume: -12, envelope: { attack: 0.001, decay: 0.3, sustain: 0, release: 0.2 }, harmonicity: 5.1, modulationIndex: 32 },
+  noise: { bus: 'dark', volume: -10, envelope: { attack: 0.001, decay: 0.15, sustain: 0, release: 0.1 }, harmonicity: 1, modulationIndex: 1 },
+  // Samplers only use attack and release
+  sampler: { bus: 'light', volume: -6, envelope: { attack: 0.001, decay: 0, sustain: 1, release: 1 }, harmonicity: 1, modulationIndex: 1 },
+}
+
+// A new instrument of a type, with an id not already in the kit
+export function createInstrumentConfig(type: InstrumentType, kit: InstrumentKit): InstrumentConfig {
+  let n = 1
+  while (kit.instruments.some(instrument => instrument.id === `${type}-${n}`)) n++
+  const defaults = TYPE_DEFAULTS[type]
+  return {
+    ...defaults,
+    envelope: { ...defaults.envelope },
+    id: `${type}-${n}`,
+    name: `${INSTRUMENT_TYPE_LABELS[type]} ${n}`,
+    type,
+    ...(type === 'sampler' ? { samples: { kind: 'pack', packId: 'piano' } as const } : {}),
+  }
+}
+
+const STORAGE_KEY = 'pi-instrument-kit'
+
+export function loadInstrumentKit(): InstrumentKit {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<InstrumentKit>
+      return { instruments: parsed.instruments ?? [], routes: parsed.routes ?? {} }
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable instrument kit:', error)
+  }
+  return EMPTY_KIT
+}
+
+export function saveInstrumentKit(kit: InstrumentKit) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(kit))
+}
+
+// Anything a route can play. Pitched polyphonic types play whole chords; drums
+// play the lowest note and noise ignores pitch
+export type PlayableInstrument =
+  | PolySynth<Synth>
+  | PolySynth<FMSynth>
+  | PolySynth<AMSynth>
+  | MembraneSynth
+  | MetalSynth
+  | NoiseSynth
+  | Sampler
+
+function buildInstrument(config: InstrumentConfig): PlayableInstrument {
+  const { envelope, harmonicity, modulationIndex } = config
+  let instrument: PlayableInstrument
+  switch (config.type) {
+    case 'synth':
+      instrument = new PolySynth(Synth, { envelope })
+      break
+    case 'fm':
+      instrument = new PolySynth(FMSynth, { envelope, harmonicity, modulationIndex })
+      break
+    case 'am':
+      instrument = new PolySynth(AMSynth, { envelope, harmonicity })
+      break
+    case 'membrane':
+      instrument = new MembraneSynth({ envelope })
+      break
+    case 'metal':
+      instrument = new MetalSynth({ envelope, harmonicity, modulationIndex })
+      break
+    case 'noise':
+      instrument = new NoiseSynth({ envelope })
+      break
+    case 'sampler':
+      // Starts empty; the registry adds the samples as they load
+      instrument = new Sampler({ attack: envelope.attack, release: envelope.release })
+      break
+  }
+  instrument.volume.value = config.volume
+  return instrument
+}
+
+export function triggerInstrument(
+  instrument: PlayableInstrument,
+  pitches: (string | number)[],
+  duration: string | number,
+  time: number,
+  velocity: number
+) {
+  if (instrument instanceof NoiseSynth) {
+    instrument.triggerAttackRelease(duration, time, velocity)
+  } else if (instrument instanceof PolySynth || instrument instanceof Sampler) {
+    instrument.triggerAttackRelease(pitches, duration, time, velocity)
+  } else if (pitches.length > 0) {
+    instrument.triggerAttackRelease(pitches[0], duration, time, velocity)
+  }
+}
+
+// Owns the Tone instruments for a kit. Built in the current Tone context, so an
+// offline render's engine gets its own
+export class InstrumentRegistry {
+  private entries = new Map<string, { config: InstrumentConfig; instrument: PlayableInstrument }>()
+  private loading = new Set<Promise<void>>() // Sample loads still running
+  private sampled = new Set<PlayableInstrument>() // Samplers with at least one sample in
+
+  constructor(
+    private readonly connect: (instrument: PlayableInstrument, bus: InstrumentBus) => void,
+    private readonly onLoadError?: (id: string, error: unknown) => void
+  ) {}
+
+  // Build, rebuild or drop instruments to match a kit. Changed ones are rebuilt,
+  // cutting any notes they still have sounding
+  sync(configs: InstrumentConfig[]) {
+    const wanted = new Map(configs.map(config => [config.id, config]))
+    for (const [id, entry] of this.entries) {
+      if (!wanted.has(id)) {
+        this.sampled.delete(entry.instrument)
+        entry.instrument.dispose()
+        this.entries.delete(id)
+      }
+    }
+
+    for (const config of configs) {
+      const existing = this.entries.get(config.id)
+      if (existing && JSON.stringify(existing.config) === JSON.stringify(config)) continue
+
+      if (existing) {
+        this.sampled.delete(existing.instrument)
+        existing.instrument.dispose()
+      }
+      const instrument = buildInstrument(config)
+      this.connect(instrument, config.bus)
+      this.entries.set(config.id, { config: structuredClone(config), instrument })
+      if (instrument instanceof Sampler && config.samples) this.loadSamples(config.id, instrument, config.samples)
+    }
+  }
+
+  // Resolves once every sample started loading so far has loaded (or failed)
+  async loaded() {
+    await Promise.all(this.loading)
+  }
+
+  private loadSamples(id: string, sampler: Sampler, source: SampleSource) {
+    const load = (async () => {
+      try {
+        const urls = await resolveSampleUrls(source)
+        await Promise.all(Object.entries(urls).map(async ([note, url]) => {
+          try {
+            const buffer = await ToneAudioBuffer.fromUrl(url)
+            if (!sampler.disposed) {
+              sampler.add(note as Parameters<Sampler['add']>[0], buffer)
+              this.sampled.add(sampler)
+            }
+          } finally {
+            if (url.startsWith('blob:')) URL.revokeObjectURL(url)
+          }
+        }))
+      } catch (error) {
+        this.onLoadError?.(id, error)
+      }
+    })()
+    this.loading.add(load)
+    load.finally(() => this.loading.delete(load))
+  }
+
+  get(id: string): PlayableInstrument | null {
+    return this.entries.get(id)?.instrument ?? null
+  }
+
+  // Samplers throw when played before any sample has loaded
+  isSilent(id: string): boolean {
+    const instrument = this.get(id)
+    return instrument instanceof Sampler && !this.sampled.has(instrument)
+  }
+
+  getConfig(id: string): InstrumentConfig | null {
+    return this.entries.get(id)?.config ?? null
+  }
+
+  dispose() {
+    for (const { instrument } of this.entries.values()) instrument.dispose()
+    this.entries.clear()
+    this.sampled.clear()
+  }
+}
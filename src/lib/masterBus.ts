@@ -0,0 +1,237 @@
+import { Channel, Compressor, Gain, Limiter, Volume, WaveShaper, connect, dbToGain, gainToDb, getContext, type ToneAudioNode } from 'tone'
+import defaults from '../config/defaults.json'
+
+// Mixing: each voice plays through a channel strip (volume, pan, mute, solo) into
+// its theme's effects rack, and both racks meet on the master bus: compressor ->
+// master volume -> limiter -> a hard clip at the ceiling -> speakers. A meter taps
+// the very end, so it reads what's actually heard
+
+export type ChannelStripId = 'kick' | 'hihat' | 'crash' | 'darkMelody' | 'lightMelody' | 'darkKit' | 'lightKit'
+
+export interface ChannelStripSettings {
+  volume: number // dB
+  pan: number // -1 left to 1 right
+  mute: boolean
+  solo: boolean // Soloing any strip silences the ones that aren't
+}
+
+export const CHANNEL_STRIP_LABELS: Record<ChannelStripId, string> = {
+  kick: 'Kick',
+  hihat: 'Hi-hat',
+  crash: 'Crash',
+  darkMelody: 'Dark melody',
+  lightMelody: 'Light melody',
+  darkKit: 'Kit (dark bus)',
+  lightKit: 'Kit (light bus)',
+}
+
+export const CHANNEL_STRIP_IDS = Object.keys(CHANNEL_STRIP_LABELS) as ChannelStripId[]
+
+export const DEFAULT_CHANNEL_STRIP: ChannelStripSettings = { volume: 0, pan: 0, mute: false, solo: false }
+
+export interface MasterBusSettings {
+  compressor: { enabled: boolean; threshold: number; ratio: number; attack: number; release: number } // dB, ratio:1, seconds
+  volume: number // dB, before the limiter
+  ceiling: number // dBFS the output never goes over
+}
+
+// Defaults come from src/config/defaults.json (audio.master)
+export const DEFAULT_MASTER_BUS: MasterBusSettings = {
+  compressor: { ...defaults.audio.master.compressor },
+  volume: defaults.audio.master.volume,
+  ceiling: defaults.audio.master.ceiling,
+}
+
+// Throws if settings can't be applied
+export function validateMasterBus(settings: MasterBusSettings) {
+  const { threshold, ratio, attack, release } = settings.compressor
+  if (threshold < -100 || threshold > 0) throw new Error(`Compressor threshold must be -100 to 0dB: ${threshold}`)
+  if (ratio < 1 || ratio > 20) throw new Error(`Compressor ratio must be 1 to 20: ${ratio}`)
+  if (attack < 0 || attack > 1) throw new Error(`Compressor attack must be 0 to 1s: ${attack}`)
+  if (release < 0 || release > 1) throw new Error(`Compressor release must be 0 to 1s: ${release}`)
+  if (settings.ceiling < -24 || settings.ceiling > 0) throw new Error(`Ceiling must be -24 to 0dBFS: ${settings.ceiling}`)
+}
+
+// A Tone Channel, with mute kept apart from the volume so a muted strip's fader
+// can still move and comes back where it was left
+export class ChannelStrip {
+  readonly channel: Channel
+  private settings: ChannelStripSettings
+
+  constructor(settings: ChannelStripSettings = DEFAULT_CHANNEL_STRIP) {
+    this.settings = { ...settings }
+    this.channel = new Channel({ volume: settings.volume, pan: settings.pan, mute: settings.mute, solo: settings.solo })
+  }
+
+  get input(): ToneAudioNode {
+    return this.channel
+  }
+
+  getSettings(): ChannelStripSettings {
+    return { ...this.settings }
+  }
+
+  set(changes: Partial<ChannelStripSettings>) {
+    this.settings = { ...this.settings, ...changes }
+    const { volume, pan, mute, solo } = this.settings
+    // Muting parks the volume at -Infinity, so only move it while unmuted
+    if (this.channel.mute && !mute) this.channel.mute = false
+    if (!mute) this.channel.volume.rampTo(volume, 0.02)
+    this.channel.mute = mute
+    this.channel.pan.rampTo(pan, 0.02)
+    this.channel.solo = solo
+  }
+
+  connect(destination: ToneAudioNode) {
+    this.channel.connect(destination)
+  }
+
+  dispose() {
+    this.channel.dispose()
+  }
+}
+
+export interface MeterReading {
+  peak: number // dBFS, the louder channel over the last ~40ms
+  rms: number // dBFS
+  lufs: number // Momentary loudness: K-weighted, over the last 400ms
+  reduction: number // dB the compressor is taking off, 0 or negative
+}
+
+const METER_FFT_SIZE = 2048 // ~40ms at 48kHz
+const LOUDNESS_FFT_SIZE = 32768 // Largest analyser window, enough for 400ms up to 81.9kHz
+const MOMENTARY_SECONDS = 0.4
+
+function toDb(gain: number) {
+  return gain > 0 ? gainToDb(gain) : -Infinity
+}
+
+export class MasterBus {
+  readonly input = new Gain()
+  readonly output = new Gain()
+  readonly analyser: AnalyserNode // The mixed-down output, for visualizers
+  private readonly compressor = new Compressor()
+  private readonly volume = new Volume()
+  private readonly limiter = new Limiter()
+  private readonly clip = new WaveShaper()
+  private settings: MasterBusSettings = DEFAULT_MASTER_BUS
+  // Raw analysers per channel: plain for peak/RMS, K-weighted for loudness
+  private readonly meters: AnalyserNode[]
+  private readonly loudness: AnalyserNode[]
+  private readonly meterNodes: AudioNode[]
+  private readonly samples: Float32Array<ArrayBuffer>
+
+  constructor() {
+    this.apply(this.settings)
+    this.volume.connect(this.limiter)
+    this.limiter.connect(this.clip)
+    this.clip.connect(this.output)
+
+    const context = getContext().rawContext as BaseAudioContext
+    const split = context.createChannelSplitter(2)
+    const weightedSplit = context.createChannelSplitter(2)
+    // K-weighting (ITU-R BS.1770): a +4dB shelf for the head, then a highpass
+    // below 38Hz. WebAudio's shelf has a fixed slope, close enough for a meter
+    const shelf = context.createBiquadFilter()
+    shelf.type = 'highshelf'
+    shelf.frequency.value = 1681.97
+    shelf.gain.value = 4
+    const highpass = context.createBiquadFilter()
+    highpass.type = 'highpass'
+    highpass.frequency.value = 38.13
+    highpass.Q.value = 0.5
+    connect(this.output, split)
+    connect(this.output, shelf)
+    shelf.connect(highpass)
+    highpass.connect(weightedSplit)
+
+    this.meters = [0, 1].map(channel => {
+      const analyser = context.createAnalyser()
+      analyser.fftSize = METER_FFT_SIZE
+      split.connect(analyser, channel)
+      return analyser
+    })
+    this.loudness = [0, 1].map(channel => {
+      const analyser = context.createAnalyser()
+      analyser.fftSize = LOUDNESS_FFT_SIZE
+      weightedSplit.connect(analyser, channel)
+      return analyser
+    })
+    this.analyser = context.createAnalyser()
+    this.analyser.fftSize = METER_FFT_SIZE
+    connect(this.output, this.analyser)
+    this.meterNodes = [split, weightedSplit, shelf, highpass, this.analyser, ...this.meters, ...this.loudness]
+    this.samples = new Float32Array(LOUDNESS_FFT_SIZE)
+  }
+
+  setSettings(settings: MasterBusSettings) {
+    validateMasterBus(settings)
+    this.apply(structuredClone(settings))
+  }
+
+  getSettings(): MasterBusSettings {
+    return structuredClone(this.settings)
+  }
+
+  read(): MeterReading {
+    let peak = 0
+    let meanSquare = 0
+    for (const analyser of this.meters) {
+      const samples = this.samples.subarray(0, analyser.fftSize)
+      analyser.getFloatTimeDomainData(samples)
+      let sum = 0
+      for (const sample of samples) {
+        peak = Math.max(peak, Math.abs(sample))
+        sum += sample * sample
+      }
+      meanSquare = Math.max(meanSquare, sum / samples.length)
+    }
+
+    // Loudness sums the channels' K-weighted power over the momentary window
+    let power = 0
+    for (const analyser of this.loudness) {
+      const windowLength = Math.min(analyser.fftSize, Math.round(MOMENTARY_SECONDS * analyser.context.sampleRate))
+      analyser.getFloatTimeDomainData(this.samples)
+      let sum = 0
+      for (let i = analyser.fftSize - windowLength; i < analyser.fftSize; i++) sum += this.samples[i] * this.samples[i]
+      power += sum / windowLength
+    }
+
+    return {
+      peak: toDb(peak),
+      rms: toDb(Math.sqrt(meanSquare)),
+      lufs: power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity,
+      reduction: this.settings.compressor.enabled ? Math.min(0, this.compressor.reduction) : 0,
+    }
+  }
+
+  private apply(settings: MasterBusSettings) {
+    this.settings = settings
+    const { enabled, ...compressor } = settings.compressor
+    this.compressor.set(compressor)
+    this.volume.volume.rampTo(settings.volume, 0.02)
+    this.limiter.threshold.value = settings.ceiling
+    // The limiter's attack lets the front of a transient through; the clip catches it
+    const ceiling = dbToGain(settings.ceiling)
+    this.clip.setMap(value => Math.max(-ceiling, Math.min(ceiling, value)))
+
+    this.input.disconnect()
+    this.compressor.disconnect()
+    if (enabled) {
+      this.input.connect(this.compressor)
+      this.compressor.connect(this.volume)
+    } else {
+      this.input.connect(this.volume)
+    }
+  }
+
+  dispose() {
+    for (const node of this.meterNodes) node.disconnect()
+    this.input.dispose()
+    this.compressor.dispose()
+    this.volume.dispose()
+    this.limiter.dispose()
+    this.clip.dispose()
+    this.output.dispose()
+  }
+}
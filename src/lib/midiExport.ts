@@ -0,0 +1,126 @@
+import { Note } from 'tonal'
+import type { AudioEngine } from './audioEngine'
+import { digitEvents, watchStreamDigit, type Theme } from './digitEvents'
+import { isBuiltInInstrument } from './instruments'
+import { encodeMidiFile, type MidiNote, type MidiTrack } from './midiFile'
+import { DEFAULT_MIDI_CHANNELS, GM_CRASH_NOTE, GM_HIHAT_NOTE, GM_KICK_NOTE } from './midiOutput'
+import { ModifierLayer } from './modifiers'
+import { PatternDetector } from './patternDetector'
+import { digitRole } from './radixMapping'
+import { GRID_OPTIONS, MAX_TIED_STEPS, stepAccent, stepVelocity, swingOffsetTicks, type RhythmSettings } from './rhythm'
+
+const PPQ = 480
+
+export interface MidiExportOptions {
+  digits: string[] // Digit symbols to write, in order
+  tempo: number
+  rhythm: RhythmSettings
+  radix: number
+  // Live engine whose music theory (key, chords, voice leading, harmonic journey),
+  // modifier, pattern and kit settings pick the notes
+  notesFrom: AudioEngine
+}
+
+// Write a digit sequence as a .mid with kick, hi-hat and dark/light melody tracks,
+// laid out on the same grid, swing, accents and ties as live playback
+export function exportDigitsToMidi(options: MidiExportOptions): Blob {
+  const { digits, tempo, rhythm, radix, notesFrom } = options
+  const gridQuarterNotes = (GRID_OPTIONS.find(o => o.value === rhythm.grid) ?? GRID_OPTIONS[0]).quarterNotes
+  const gridTicks = PPQ * gridQuarterNotes
+
+  const kick: MidiNote[] = []
+  const hihat: MidiNote[] = []
+  const melody: Record<'dark' | 'light', MidiNote[]> = { dark: [], light: [] }
+  let theme: Theme = 'dark' // Same starting theme as the engine
+  // Its own copies, so exporting doesn't disturb live playback
+  const theory = notesFrom.copyMusicTheory()
+  const modifiers = new ModifierLayer(notesFrom.getModifiers())
+  const patterns = new PatternDetector(notesFrom.getPatternDetection())
+  const kit = notesFrom.getInstrumentKit()
+  const radixRoles = notesFrom.getRadixRoles()
+  // Routed digits go to their built-in voice's track, kit instruments to their bus's melody track
+  const routeTrack = (instrumentId: string): MidiNote[] => {
+    if (isBuiltInInstrument(instrumentId)) {
+      return instrumentId === 'kick' ? kick : instrumentId === 'hihat' ? hihat : melody[instrumentId]
+    }
+    return melody[kit.instruments.find(config => config.id === instrumentId)?.bus ?? 'light']
+  }
+  let tiedSteps = 0
+
+  digits.forEach((digit, index) => {
+    const ticks = index * gridTicks
+    const startTick = ticks + swingOffsetTicks(ticks, PPQ, rhythm.swing, gridTicks)
+
+    // The harmonic journey and pattern events, as live playback watches the stream
+    const { newPatterns } = watchStreamDigit(digit, index, { theory, patterns, radix, radixRoles })
+    for (const { event } of newPatterns) {
+      switch (event) {
+        case 'fill':
+          for (let hit = 0; hit < 4; hit++) {
+            hihat.push({ pitch: GM_HIHAT_NOTE, startTick: startTick + hit * (PPQ / 8), durationTicks: PPQ / 16, velocity: (0.4 + hit * 0.2) * 127 })
+          }
+          break
+        case 'crash':
+          hihat.push({ pitch: GM_CRASH_NOTE, startTick, durationTicks: PPQ * 2, velocity: 127 })
+          break
+      }
+    }
+
+    // Repeats already sounding as part of a tied note
+    if (tiedSteps > 0) {
+      tiedSteps--
+      return
+    }
+
+    const role = digitRole(digit, radix, radixRoles)
+    if (!role) return
+
+    const accent = stepAccent(ticks, PPQ, rhythm.timeSignature)
+    const velocity = stepVelocity(accent, rhythm.accentDownbeats) * 127
+
+    // Pitched digits tie over repeats, whatever plays them
+    const pitched = role.type === 'degree' || role.type === 'chromatic'
+    let durationTicks = PPQ / 2 // Eighth note, as in the engine
+    if (pitched && rhythm.tieRepeats) {
+      let steps = 1
+      while (steps < MAX_TIED_STEPS && digits[index + steps] === digit) steps++
+      tiedSteps = steps - 1
+      durationTicks = gridTicks * steps
+    }
+
+    const events = digitEvents(digit, role, { theory, modifiers, kit, theme })
+    theme = events.theme
+    const { sound } = events
+    const addNotes = (track: MidiNote[], notes: string[]) => {
+      for (const note of notes) {
+        const pitch = Note.midi(note)
+        if (pitch !== null) track.push({ pitch, startTick, durationTicks, velocity })
+      }
+    }
+
+    switch (sound.kind) {
+      case 'route':
+        addNotes(routeTrack(sound.route.instrumentId), sound.notes)
+        break
+      case 'drum':
+        if (sound.drum === 'kick') {
+          kick.push({ pitch: GM_KICK_NOTE, startTick, durationTicks: PPQ / 4, velocity })
+        } else {
+          hihat.push({ pitch: GM_HIHAT_NOTE, startTick, durationTicks: PPQ / 8, velocity })
+        }
+        break
+      case 'melody':
+        addNotes(melody[theme], sound.notes)
+        break
+    }
+  })
+
+  const tracks: MidiTrack[] = [
+    { name: 'Kick', channel: DEFAULT_MIDI_CHANNELS.kick, notes: kick },
+    { name: 'Hi-Hat', channel: DEFAULT_MIDI_CHANNELS.hihat, notes: hihat },
+    { name: 'Dark Melody', channel: DEFAULT_MIDI_CHANNELS.dark, notes: melody.dark },
+    { name: 'Light Melody', channel: DEFAULT_MIDI_CHANNELS.light, notes: melody.light },
+  ]
+
+  return encodeMidiFile({ ppq: PPQ, tempo, timeSignature: rhythm.timeSignature, tracks })
+}
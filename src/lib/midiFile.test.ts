@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { encodeMidiFile, type MidiFileOptions } from './midiFile'
+
+async function encode(options: MidiFileOptions): Promise<number[]> {
+  return Array.from(new Uint8Array(await encodeMidiFile(options).arrayBuffer()))
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0))
+
+describe('encodeMidiFile', () => {
+  it('writes a format 1 header counting the conductor track', async () => {
+    const bytes = await encode({
+      ppq: 480,
+      tempo: 120,
+      timeSignature: [4, 4],
+      tracks: [
+        { name: 'Dark', channel: 0, notes: [] },
+        { name: 'Drums', channel: 9, notes: [] },
+      ],
+    })
+
+    // MThd, length 6, format 1, 3 tracks, 480 (0x01e0) ticks per quarter
+    expect(bytes.slice(0, 14)).toEqual([...ascii('MThd'), 0, 0, 0, 6, 0, 1, 0, 3, 0x01, 0xe0])
+  })
+
+  it('starts with a conductor track holding the tempo and time signature', async () => {
+    const bytes = await encode({ ppq: 96, tempo: 120, timeSignature: [6, 8], tracks: [] })
+
+    // 500000 microseconds per quarter; 6/8 as 6 over 2^3
+    expect(bytes.slice(14)).toEqual([
+      ...ascii('MTrk'), 0, 0, 0, 19,
+      0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20,
+      0x00, 0xff, 0x58, 0x04, 6, 3, 24, 8,
+      0x00, 0xff, 0x2f, 0x00,
+    ])
+  })
+
+  it('writes note-offs before note-ons on the same tick, with delta times', async () => {
+    const bytes = await encode({
+      ppq: 96,
+      tempo: 120,
+      timeSignature: [4, 4],
+      tracks: [
+        {
+          name: 'A',
+          channel: 1,
+          notes: [
+            { pitch: 60, startTick: 0, durationTicks: 200, velocity: 100 },
+            { pitch: 60, startTick: 200, durationTicks: 96, velocity: 200 },
+          ],
+        },
+      ],
+    })
+
+    // The note track follows the 27-byte conductor chunk; 200 ticks is 0x81 0x48
+    expect(bytes.slice(14 + 27)).toEqual([
+      ...ascii('MTrk'), 0, 0, 0, 26,
+      0x00, 0xff, 0x03, 0x01, ...ascii('A'),
+      0x00, 0x91, 60, 100,
+      0x81, 0x48, 0x81, 60, 0,
+      0x00, 0x91, 60, 127,
+      0x60, 0x81, 60, 0,
+      0x00, 0xff, 0x2f, 0x00,
+    ])
+  })
+})
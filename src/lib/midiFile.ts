@@ -0,0 +1,111 @@
+// Minimal Standard MIDI File (format 1) writer: a conductor track with tempo and
+// time signature, followed by one track per voice
+
+export interface MidiNote {
+  pitch: number // MIDI note number
+  startTick: number
+  durationTicks: number
+  velocity: number // 1-127
+}
+
+export interface MidiTrack {
+  name: string
+  channel: number // 0-15; 9 is General MIDI drums
+  notes: MidiNote[]
+}
+
+export interface MidiFileOptions {
+  ppq: number // Ticks per quarter note
+  tempo: number // Quarter notes per minute
+  timeSignature: [number, number]
+  tracks: MidiTrack[]
+}
+
+interface TrackEvent {
+  tick: number
+  bytes: number[]
+}
+
+// Variable-length quantity: 7 bits per byte, high bit set on all but the last
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f]
+  value >>>= 7
+  while (value > 0) {
+    bytes.unshift((value & 0x7f) | 0x80)
+    value >>>= 7
+  }
+  return bytes
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text))
+}
+
+function metaEvent(tick: number, type: number, data: number[]): TrackEvent {
+  return { tick, bytes: [0xff, type, ...variableLength(data.length), ...data] }
+}
+
+// Delta-timed track chunk; events at the same tick keep their order
+function trackChunk(events: TrackEvent[]): number[] {
+  const sorted = events
+    .map((event, order) => ({ ...event, order }))
+    .sort((a, b) => a.tick - b.tick || a.order - b.order)
+
+  const body: number[] = []
+  let lastTick = 0
+  for (const event of sorted) {
+    body.push(...variableLength(event.tick - lastTick), ...event.bytes)
+    lastTick = event.tick
+  }
+  body.push(0x00, 0xff, 0x2f, 0x00) // End of track
+
+  return [...textBytes('MTrk'), ...uint32(body.length), ...body]
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+}
+
+function uint16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff]
+}
+
+function conductorTrack(tempo: number, timeSignature: [number, number]): number[] {
+  const microsecondsPerQuarter = Math.round(60_000_000 / tempo)
+  const [beats, beatUnit] = timeSignature
+
+  return trackChunk([
+    metaEvent(0, 0x51, [
+      (microsecondsPerQuarter >>> 16) & 0xff,
+      (microsecondsPerQuarter >>> 8) & 0xff,
+      microsecondsPerQuarter & 0xff,
+    ]),
+    // Denominator as a power of two, 24 clocks per click, 8 32nds per quarter
+    metaEvent(0, 0x58, [beats, Math.log2(beatUnit), 24, 8]),
+  ])
+}
+
+function noteTrack(track: MidiTrack): number[] {
+  const channel = track.channel & 0x0f
+  const events: TrackEvent[] = [metaEvent(0, 0x03, textBytes(track.name))]
+
+  // Note-offs go first so a repeated pitch on the same tick retriggers cleanly
+  const offs: TrackEvent[] = []
+  const ons: TrackEvent[] = []
+  for (const note of track.notes) {
+    const start = Math.round(note.startTick)
+    const end = start + Math.max(1, Math.round(note.durationTicks))
+    const velocity = Math.max(1, Math.min(127, Math.round(note.velocity)))
+    ons.push({ tick: start, bytes: [0x90 | channel, note.pitch, velocity] })
+    offs.push({ tick: end, bytes: [0x80 | channel, note.pitch, 0] })
+  }
+
+  return trackChunk([...events, ...offs, ...ons])
+}
+
+export function encodeMidiFile({ ppq, tempo, timeSignature, tracks }: MidiFileOptions): Blob {
+  const header = [...textBytes('MThd'), ...uint32(6), ...uint16(1), ...uint16(tracks.length + 1), ...uint16(ppq)]
+  const chunks = [header, conductorTrack(tempo, timeSignature), ...tracks.map(noteTrack)]
+
+  return new Blob([new Uint8Array(chunks.flat())], { type: 'audio/midi' })
+}
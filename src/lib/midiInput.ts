@@ -0,0 +1,217 @@
+import type { ReverbSettings } from './reverbChannel'
+
+// Web MIDI input: notes play digits, CC knobs drive engine parameters
+
+export type EnvelopeStage = 'attack' | 'decay' | 'sustain' | 'release'
+
+// The setters the settings sliders use. Knobs go through the same ones, so the
+// sliders follow the knob
+export interface MidiControlSetters {
+  setReverb: (theme: 'dark' | 'light', changes: Partial<ReverbSettings>) => void
+  setSynthEnvelopeStage: (theme: 'dark' | 'light', stage: EnvelopeStage, value: number) => void
+  setSynthDetune: (theme: 'dark' | 'light', detune: number) => void
+  setKickPitchDecay: (decay: number) => void
+  setHihatFrequency: (frequency: number) => void
+}
+
+// An engine parameter a CC knob can be learned onto; CC 0-127 is scaled to min-max
+export interface MidiControlTarget {
+  id: string
+  label: string
+  min: number
+  max: number
+  throttleMs?: number // Applies at most this often, for changes too costly to make on every CC
+  apply: (setters: MidiControlSetters, value: number) => void
+}
+
+function envelopeTarget(theme: 'dark' | 'light', stage: EnvelopeStage, min: number, max: number): MidiControlTarget {
+  const themeLabel = theme === 'dark' ? 'Dark' : 'Light'
+  return {
+    id: `${theme}Synth.${stage}`,
+    label: `${themeLabel} synth ${stage}`,
+    min,
+    max,
+    apply: (setters, value) => setters.setSynthEnvelopeStage(theme, stage, value),
+  }
+}
+
+// Every decay change builds a new impulse, so a turning knob only rebuilds it every so often
+const DECAY_THROTTLE_MS = 150
+
+function reverbTarget(theme: 'dark' | 'light', setting: 'wet' | 'decay' | 'damping', label: string, min: number, max: number): MidiControlTarget {
+  return {
+    id: `${theme}Reverb.${setting}`,
+    label: `${theme === 'dark' ? 'Dark' : 'Light'} reverb ${label}`,
+    min,
+    max,
+    throttleMs: setting === 'decay' ? DECAY_THROTTLE_MS : undefined,
+    apply: (setters, value) => setters.setReverb(theme, { [setting]: value }),
+  }
+}
+
+// Same ranges as the settings sliders
+export const MIDI_CONTROL_TARGETS: MidiControlTarget[] = [
+  reverbTarget('dark', 'wet', 'mix', 0, 100),
+  reverbTarget('dark', 'decay', 'decay', 0.1, 10),
+  reverbTarget('dark', 'damping', 'damping', 0, 8000),
+  reverbTarget('light', 'wet', 'mix', 0, 100),
+  reverbTarget('light', 'decay', 'decay', 0.1, 10),
+  reverbTarget('light', 'damping', 'damping', 0, 8000),
+  envelopeTarget('dark', 'attack', 0.001, 2),
+  envelopeTarget('dark', 'release', 0.001, 5),
+  envelopeTarget('light', 'attack', 0.001, 2),
+  envelopeTarget('light', 'release', 0.001, 5),
+  { id: 'darkSynth.detune', label: 'Dark synth detune', min: -100, max: 100, apply: (s, v) => s.setSynthDetune('dark', v) },
+  { id: 'lightSynth.detune', label: 'Light synth detune', min: -100, max: 100, apply: (s, v) => s.setSynthDetune('light', v) },
+  { id: 'kick.pitchDecay', label: 'Kick pitch decay', min: 0.01, max: 0.2, apply: (s, v) => s.setKickPitchDecay(v) },
+  { id: 'hihat.frequency', label: 'Hi-hat frequency', min: 100, max: 500, apply: (s, v) => s.setHihatFrequency(v) },
+]
+
+export interface MidiMappings {
+  notes: Record<number, string> // MIDI note number -> digit symbol
+  controls: Record<number, string> // CC number -> MidiControlTarget id
+}
+
+// C4 upwards plays 0, 1, 2... so a keyboard covers every digit up to hex F
+const DEFAULT_BASE_NOTE = 60
+
+export function defaultMidiMappings(): MidiMappings {
+  const notes: Record<number, string> = {}
+  for (let value = 0; value < 16; value++) {
+    notes[DEFAULT_BASE_NOTE + value] = value.toString(16).toUpperCase()
+  }
+  return { notes, controls: {} }
+}
+
+const STORAGE_KEY = 'pi-midi-mappings'
+
+export function loadMidiMappings(): MidiMappings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<MidiMappings>
+      return { notes: parsed.notes ?? defaultMidiMappings().notes, controls: parsed.controls ?? {} }
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable MIDI mappings:', error)
+  }
+  return defaultMidiMappings()
+}
+
+export function saveMidiMappings(mappings: MidiMappings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings))
+}
+
+// What the next incoming note or knob gets bound to
+export type MidiLearnTarget = { type: 'note'; digit: string } | { type: 'control'; targetId: string }
+
+interface MidiInputHandlers {
+  onDigit: (digit: string, velocity: number) => void // Velocity 0-1
+  onControl: (target: MidiControlTarget, value: number) => void // Value scaled to the target's range
+  onMappingsChange: (mappings: MidiMappings) => void // After a learn
+}
+
+// Turns raw MIDI messages into digits and parameter changes, with MIDI learn
+export class MidiInputController {
+  private input: MIDIInput | null = null
+  private learnTarget: MidiLearnTarget | null = null
+  // Latest value per throttled target, and the timer it waits on
+  private throttled = new Map<string, { value: number; timer: ReturnType<typeof setTimeout> }>()
+
+  constructor(
+    private mappings: MidiMappings,
+    private readonly handlers: MidiInputHandlers
+  ) {}
+
+  connect(input: MIDIInput | null) {
+    this.disconnect()
+    this.input = input
+    input?.addEventListener('midimessage', this.handleEvent)
+  }
+
+  // Also drops knob values still waiting on a throttle, so none arrive afterwards
+  disconnect() {
+    this.input?.removeEventListener('midimessage', this.handleEvent)
+    this.input = null
+    this.throttled.forEach(({ timer }) => clearTimeout(timer))
+    this.throttled.clear()
+  }
+
+  setMappings(mappings: MidiMappings) {
+    this.mappings = mappings
+  }
+
+  // Bind the next note or CC to a digit/target; null cancels
+  learn(target: MidiLearnTarget | null) {
+    this.learnTarget = target
+  }
+
+  handleMessage(data: ArrayLike<number>) {
+    const [status, data1, data2] = Array.from(data)
+    const type = status & 0xf0
+
+    if (type === 0x90 && data2 > 0) {
+      if (this.learnTarget?.type === 'note') {
+        this.learnNote(data1, this.learnTarget.digit)
+        return
+      }
+      const digit = this.mappings.notes[data1]
+      if (digit !== undefined) this.handlers.onDigit(digit, data2 / 127)
+      return
+    }
+
+    if (type === 0xb0) {
+      if (this.learnTarget?.type === 'control') {
+        this.learnControl(data1, this.learnTarget.targetId)
+        return
+      }
+      const target = MIDI_CONTROL_TARGETS.find(t => t.id === this.mappings.controls[data1])
+      if (target) this.control(target, target.min + (data2 / 127) * (target.max - target.min))
+    }
+  }
+
+  // Throttled targets apply the first value straight away, then at most once per
+  // interval, always ending on the knob's last value
+  private control(target: MidiControlTarget, value: number) {
+    if (!target.throttleMs) {
+      this.handlers.onControl(target, value)
+      return
+    }
+    const waiting = this.throttled.get(target.id)
+    if (waiting) {
+      waiting.value = value
+      return
+    }
+
+    this.handlers.onControl(target, value)
+    const latest = {
+      value,
+      timer: setTimeout(() => {
+        this.throttled.delete(target.id)
+        if (latest.value !== value) this.control(target, latest.value)
+      }, target.throttleMs),
+    }
+    this.throttled.set(target.id, latest)
+  }
+
+  private handleEvent = (event: MIDIMessageEvent) => {
+    if (event.data) this.handleMessage(event.data)
+  }
+
+  // A note plays only one digit, so any older binding of the digit is dropped
+  private learnNote(note: number, digit: string) {
+    const notes = Object.fromEntries(Object.entries(this.mappings.notes).filter(([, d]) => d !== digit))
+    this.updateMappings({ ...this.mappings, notes: { ...notes, [note]: digit } })
+  }
+
+  private learnControl(cc: number, targetId: string) {
+    const controls = Object.fromEntries(Object.entries(this.mappings.controls).filter(([, id]) => id !== targetId))
+    this.updateMappings({ ...this.mappings, controls: { ...controls, [cc]: targetId } })
+  }
+
+  private updateMappings(mappings: MidiMappings) {
+    this.mappings = mappings
+    this.learnTarget = null
+    this.handlers.onMappingsChange(mappings)
+  }
+}
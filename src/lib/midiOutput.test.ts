@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MIDI_CHANNELS, MidiSink, type MidiOutputLike } from './midiOutput'
+
+// Records what the sink sends instead of talking to a port
+class MockOutput implements MidiOutputLike {
+  sent: { data: number[]; timestamp?: number }[] = []
+  cleared = 0
+
+  send(data: number[], timestamp?: number) {
+    this.sent.push({ data, timestamp })
+  }
+
+  clear() {
+    this.cleared++
+  }
+}
+
+// Audio time in seconds straight to milliseconds, so timestamps are easy to check
+const toTimestamp = (time: number) => time * 1000
+
+describe('MidiSink', () => {
+  it('sends a note on, then a note off after the duration', () => {
+    const output = new MockOutput()
+    new MidiSink(output, toTimestamp).playNote('dark', 60, 1, 2, 0.5)
+
+    expect(output.sent).toEqual([
+      { data: [0x90, 60, 127], timestamp: 2000 },
+      { data: [0x80, 60, 0], timestamp: 2500 },
+    ])
+  })
+
+  it('scales velocity to 1-127', () => {
+    const output = new MockOutput()
+    const sink = new MidiSink(output, toTimestamp)
+    sink.playNote('light', 64, 0.5, 0, 1)
+    sink.playNote('light', 64, 0, 1, 1)
+
+    expect(output.sent[0].data[2]).toBe(64)
+    // A silent note on would read as a note off
+    expect(output.sent[2].data[2]).toBe(1)
+  })
+
+  it('sends each voice on its channel', () => {
+    const output = new MockOutput()
+    const sink = new MidiSink(output, toTimestamp)
+    sink.playNote('kick', 36, 1, 0, 0.1)
+    sink.playNote('light', 72, 1, 0, 0.1)
+
+    expect(output.sent.map(({ data }) => data[0])).toEqual([0x99, 0x89, 0x91, 0x81])
+  })
+
+  it('follows changed channels', () => {
+    const output = new MockOutput()
+    const sink = new MidiSink(output, toTimestamp)
+    sink.setChannels({ ...DEFAULT_MIDI_CHANNELS, dark: 5 })
+    sink.playNote('dark', 60, 1, 0, 0.1)
+
+    expect(output.sent.map(({ data }) => data[0])).toEqual([0x95, 0x85])
+  })
+
+  it('sends All Notes Off once per channel in use on stop', () => {
+    const output = new MockOutput()
+    new MidiSink(output, toTimestamp).allNotesOff()
+
+    // Kick and hi-hat share the drum channel
+    expect(output.sent.map(({ data }) => data)).toEqual([
+      [0xb9, 123, 0],
+      [0xb0, 123, 0],
+      [0xb1, 123, 0],
+    ])
+  })
+
+  it('drops notes scheduled ahead before All Notes Off', () => {
+    const output = new MockOutput()
+    const sink = new MidiSink(output, toTimestamp)
+    sink.playNote('dark', 60, 1, 10, 1)
+    sink.allNotesOff()
+
+    expect(output.cleared).toBe(1)
+  })
+})
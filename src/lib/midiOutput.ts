@@ -0,0 +1,68 @@
+import { getContext } from 'tone'
+
+// Live MIDI output: the engine's notes sent to external synths and DAWs
+
+// Voices the engine plays, each on its own channel
+export type MidiVoice = 'kick' | 'hihat' | 'dark' | 'light'
+
+export type MidiChannelMap = Record<MidiVoice, number> // 0-15
+
+// Drums on the General MIDI drum channel, melodies on 1 and 2 (matches the .mid export)
+export const DEFAULT_MIDI_CHANNELS: MidiChannelMap = {
+  kick: 9,
+  hihat: 9,
+  dark: 0,
+  light: 1,
+}
+
+// General MIDI drum notes
+export const GM_KICK_NOTE = 36 // Bass Drum 1
+export const GM_HIHAT_NOTE = 42 // Closed Hi-Hat
+export const GM_CRASH_NOTE = 49 // Crash Cymbal 1
+
+// Where the engine's notes go: its own synths, MIDI, or both
+export type MidiOutputMode = 'internal' | 'midi' | 'both'
+
+// The part of a Web MIDI output the sink uses, so a mock can stand in for a port
+export interface MidiOutputLike {
+  send(data: number[], timestamp?: number): void
+  clear?(): void // Drops messages still waiting for their timestamp, where the browser supports it
+}
+
+// Audio-clock time (seconds, as the engine schedules notes) as a Web MIDI timestamp
+export function audioTimeToMidiTimestamp(time: number): number {
+  return performance.now() + (time - getContext().currentTime) * 1000
+}
+
+// Turns the engine's audio-clock note events into timestamped MIDI messages
+export class MidiSink {
+  private channels: MidiChannelMap = { ...DEFAULT_MIDI_CHANNELS }
+
+  constructor(
+    private readonly output: MidiOutputLike,
+    // Converts an audio-clock time (seconds) into a performance.now() timestamp (ms)
+    private readonly toTimestamp: (time: number) => number = audioTimeToMidiTimestamp
+  ) {}
+
+  setChannels(channels: MidiChannelMap) {
+    this.channels = { ...channels }
+  }
+
+  // Note on at `time` and note off `duration` seconds later; velocity is 0-1
+  playNote(voice: MidiVoice, pitch: number, velocity: number, time: number, duration: number) {
+    const channel = this.channels[voice] & 0x0f
+    const midiVelocity = Math.max(1, Math.min(127, Math.round(velocity * 127)))
+
+    this.output.send([0x90 | channel, pitch, midiVelocity], this.toTimestamp(time))
+    this.output.send([0x80 | channel, pitch, 0], this.toTimestamp(time + duration))
+  }
+
+  // All Notes Off on every channel in use, e.g. when playback stops. Notes
+  // already scheduled ahead are dropped first where the output allows
+  allNotesOff() {
+    this.output.clear?.()
+    for (const channel of new Set(Object.values(this.channels))) {
+      this.output.send([0xb0 | channel, 123, 0])
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { Note } from 'tonal'
+
+// Modifier layer: besides sounding the kick/hi-hat, 0 and 1 (and runs of them like
+// "00" and "11") change how the melody notes after them play
+
+export type ModifierTrigger = 'kick' | 'hihat' | 'kickRun' | 'hihatRun'
+
+export type ModifierEffect =
+  | 'none'
+  | 'filterDown' // Melody lowpass closes, then opens again
+  | 'filterUp' // Melody lowpass starts closed and opens
+  | 'octaveDown'
+  | 'octaveUp'
+  | 'invert' // Chords move their lowest note up an octave
+
+export interface ModifierSettings {
+  effects: Record<ModifierTrigger, ModifierEffect>
+  span: number // Melody notes a note modifier (octave, invert) lasts for
+}
+
+// Everything off: 0 and 1 only play drums and switch theme
+export const DEFAULT_MODIFIERS: ModifierSettings = {
+  effects: { kick: 'none', hihat: 'none', kickRun: 'none', hihatRun: 'none' },
+  span: 4,
+}
+
+export const MODIFIER_TRIGGER_LABELS: Record<ModifierTrigger, string> = {
+  kick: '0 (kick)',
+  hihat: '1 (hi-hat)',
+  kickRun: '00 (kick run)',
+  hihatRun: '11 (hi-hat run)',
+}
+
+export const MODIFIER_EFFECT_LABELS: Record<ModifierEffect, string> = {
+  none: 'None',
+  filterDown: 'Filter sweep down',
+  filterUp: 'Filter sweep up',
+  octaveDown: 'Octave down',
+  octaveUp: 'Octave up',
+  invert: 'Invert chords',
+}
+
+// Effects that act on the filter rather than on the notes themselves
+export function isFilterEffect(effect: ModifierEffect): effect is 'filterDown' | 'filterUp' {
+  return effect === 'filterDown' || effect === 'filterUp'
+}
+
+function transformNotes(notes: string[], effect: ModifierEffect): string[] {
+  switch (effect) {
+    case 'octaveDown':
+      return notes.map(note => Note.transpose(note, '-8P'))
+    case 'octaveUp':
+      return notes.map(note => Note.transpose(note, '8P'))
+    case 'invert':
+      return notes.length < 2 ? notes : [...notes.slice(1), Note.transpose(notes[0], '8P')]
+    default:
+      return notes
+  }
+}
+
+// Tracks which modifier is active; stateless about audio, so the engine and the
+// MIDI export can each run their own
+export class ModifierLayer {
+  private settings: ModifierSettings
+  private lastDrum: 'kick' | 'hihat' | null = null // Drum on the previous digit, for runs
+  private noteEffect: ModifierEffect = 'none'
+  private notesLeft = 0
+
+  constructor(settings: ModifierSettings = DEFAULT_MODIFIERS) {
+    this.settings = { ...settings, effects: { ...settings.effects } }
+  }
+
+  setSettings(settings: ModifierSettings) {
+    this.settings = { ...settings, effects: { ...settings.effects } }
+    this.reset()
+  }
+
+  getSettings(): ModifierSettings {
+    return { ...this.settings, effects: { ...this.settings.effects } }
+  }
+
+  reset() {
+    this.lastDrum = null
+    this.noteEffect = 'none'
+    this.notesLeft = 0
+  }
+
+  // A 0 or 1 played; returns the effect it triggers ('none' if unassigned)
+  onDrum(drum: 'kick' | 'hihat'): ModifierEffect {
+    const isRun = this.lastDrum === drum
+    this.lastDrum = drum
+
+    const trigger: ModifierTrigger = isRun ? (drum === 'kick' ? 'kickRun' : 'hihatRun') : drum
+    const effect = this.settings.effects[trigger]
+
+    if (effect !== 'none' && !isFilterEffect(effect)) {
+      this.noteEffect = effect
+      this.notesLeft = this.settings.span
+    }
+    return effect
+  }
+
+  // A melody note or chord played; returns it with any active note modifier applied
+  onNotes(notes: string[]): string[] {
+    this.lastDrum = null
+    if (this.notesLeft <= 0) return notes
+
+    this.notesLeft--
+    return transformNotes(notes, this.noteEffect)
+  }
+}
@@ -0,0 +1,109 @@
+import { Note } from 'tonal'
+import { describe, expect, it } from 'vitest'
+import { KEYS, MODES, MusicTheoryEngine, type ModeType } from './musicTheory'
+
+const CHORD_TONES = { none: 1, triads: 3, seventh: 4, extended: 5 } as const
+const DIGITS = [2, 3, 4, 5, 6, 7, 8, 9]
+
+function engineFor(key: string, mode: ModeType, chord: string): MusicTheoryEngine {
+  const engine = new MusicTheoryEngine()
+  engine.setKey(key)
+  engine.setMode(mode)
+  engine.setChord(chord)
+  return engine
+}
+
+describe('degreeToChordNotes', () => {
+  for (const key of KEYS) {
+    for (const mode of Object.keys(MODES) as ModeType[]) {
+      for (const [chord, tones] of Object.entries(CHORD_TONES)) {
+        it(`stacks ${chord} upwards in ${key} ${mode}`, () => {
+          const engine = engineFor(key, mode, chord)
+          for (const digit of DIGITS) {
+            const notes = engine.digitToChordNotes(digit)
+            expect(notes).toHaveLength(tones)
+            const midi = notes.map(note => Note.midi(note))
+            for (let i = 1; i < midi.length; i++) {
+              expect(midi[i]!, `${notes.join(' ')} for digit ${digit}`).toBeGreaterThan(midi[i - 1]!)
+            }
+          }
+        })
+      }
+
+      it(`names every seventh chord in ${key} ${mode}`, () => {
+        const engine = engineFor(key, mode, 'seventh')
+        for (const digit of DIGITS) {
+          const notes = engine.digitToChordNotes(digit)
+          expect(engine.chordSymbol(notes), `${notes.join(' ')} for digit ${digit}`).not.toBeNull()
+        }
+      })
+    }
+  }
+})
+
+describe('chordSymbol', () => {
+  it('names the diatonic sevenths of C major', () => {
+    const engine = engineFor('C', 'ionian', 'seventh')
+    expect(DIGITS.slice(0, 7).map(digit => engine.digitToChordSymbol(digit))).toEqual([
+      'Cmaj7',
+      'Dm7',
+      'Em7',
+      'Fmaj7',
+      'G7',
+      'Am7',
+      'Bm7b5',
+    ])
+  })
+
+  it('names triads without a major "M"', () => {
+    const engine = engineFor('C', 'ionian', 'triads')
+    expect(engine.digitToChordSymbol(2)).toBe('C')
+    expect(engine.digitToChordSymbol(3)).toBe('Dm')
+  })
+
+  it('leaves single notes unnamed', () => {
+    expect(engineFor('C', 'ionian', 'none').digitToChordSymbol(2)).toBeNull()
+  })
+})
+
+describe('other keys and modes', () => {
+  const notesOf = (engine: MusicTheoryEngine) => DIGITS.slice(0, 7).map(digit => engine.digitToNoteName(digit))
+  const seventhsOf = (engine: MusicTheoryEngine) => DIGITS.slice(0, 7).map(digit => engine.digitToChordSymbol(digit))
+
+  it('spells A major with sharps', () => {
+    const engine = engineFor('A', 'ionian', 'triads')
+    expect(notesOf(engine)).toEqual(['A', 'B', 'C#', 'D', 'E', 'F#', 'G#'])
+    expect(engine.digitToChordNotes(2)).toEqual(['A4', 'C#5', 'E5'])
+    expect(seventhsOf(engineFor('A', 'ionian', 'seventh'))).toEqual(['Amaj7', 'Bm7', 'C#m7', 'Dmaj7', 'E7', 'F#m7', 'G#m7b5'])
+  })
+
+  it('gives D dorian its major IV', () => {
+    const engine = engineFor('D', 'dorian', 'seventh')
+    expect(notesOf(engine)).toEqual(['D', 'E', 'F', 'G', 'A', 'B', 'C'])
+    // The raised sixth (B) makes the chord on G dominant
+    expect(seventhsOf(engine)).toEqual(['Dm7', 'Em7', 'Fmaj7', 'G7', 'Am7', 'Bm7b5', 'Cmaj7'])
+  })
+
+  it('builds F# minor from its relative major', () => {
+    expect(seventhsOf(engineFor('F#', 'aeolian', 'seventh'))).toEqual(['F#m7', 'G#m7b5', 'Amaj7', 'Bm7', 'C#m7', 'Dmaj7', 'E7'])
+  })
+
+  it('flattens the second in E phrygian', () => {
+    const engine = engineFor('E', 'phrygian', 'seventh')
+    expect(notesOf(engine)).toEqual(['E', 'F', 'G', 'A', 'B', 'C', 'D'])
+    expect(engine.digitToChordSymbol(3)).toBe('Fmaj7')
+  })
+
+  it('raises the fourth in G lydian', () => {
+    const engine = engineFor('G', 'lydian', 'seventh')
+    expect(notesOf(engine)).toEqual(['G', 'A', 'B', 'C#', 'D', 'E', 'F#'])
+    expect(seventhsOf(engine)).toEqual(['Gmaj7', 'A7', 'Bm7', 'C#m7b5', 'Dmaj7', 'Em7', 'F#m7'])
+  })
+
+  it('leads to A harmonic minor through a dominant V', () => {
+    const engine = engineFor('A', 'harmonic', 'seventh')
+    expect(notesOf(engine)).toEqual(['A', 'B', 'C', 'D', 'E', 'F', 'G#'])
+    expect(engine.digitToChordSymbol(6)).toBe('E7')
+    expect(engine.digitToChordSymbol(8)).toBe('G#dim7')
+  })
+})
@@ -1,4 +1,8 @@
-import { Scale, Note } from 'tonal'
+import { Chord, Interval, Scale, Note } from 'tonal'
+import { HarmonicJourney, type HarmonicJourneySettings, type JourneyMove, type JourneyTrigger } from './harmonicJourney'
+import type { DigitRole } from './radixMapping'
+import { DEFAULT_TUNING, createTuning, type Tuning, type TuningSettings } from './tuning'
+import { VoiceLeader, type VoiceLeadingSettings } from './voiceLeading'
 
 // Musical modes with their interval patterns (8 notes including octave)
 export const MODES = {
@@ -38,6 +42,93 @@ export const MODES = {
 
 export type ModeType = keyof typeof MODES
 
+export const KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+// Minor third above the root
+function isMinor(mode: ModeType): boolean {
+  return MODES[mode].intervals[2] === 3
+}
+
+// Semitones each mode's root sits above the major key sharing its notes
+// (harmonic minor counts as its natural minor)
+const PARENT_MAJOR_OFFSETS: Record<ModeType, number> = {
+  ionian: 0,
+  dorian: 2,
+  phrygian: 4,
+  lydian: 5,
+  mixolydian: 7,
+  aeolian: 9,
+  locrian: 11,
+  harmonic: 9,
+}
+
+function transposeKey(key: string, semitones: number): string {
+  return KEYS[(KEYS.indexOf(key) + (semitones % 12) + 12) % 12]
+}
+
+export interface KeyCenter {
+  key: string
+  mode: ModeType
+}
+
+// e.g. "G dorian"
+export function describeKeyCenter({ key, mode }: KeyCenter): string {
+  return `${key} ${mode}`
+}
+
+// A modulation made by the harmonic journey
+export interface JourneyStep {
+  from: KeyCenter
+  to: KeyCenter
+  move: JourneyMove
+  trigger: JourneyTrigger
+}
+
+// Key center a journey move lands on
+function moveKeyCenter({ key, mode }: KeyCenter, move: JourneyMove): KeyCenter {
+  switch (move) {
+    case 'fifthUp':
+      return { key: transposeKey(key, 7), mode }
+    case 'fifthDown':
+      return { key: transposeKey(key, -7), mode }
+    case 'relative': {
+      const parent = transposeKey(key, -PARENT_MAJOR_OFFSETS[mode])
+      return isMinor(mode) ? { key: parent, mode: 'ionian' } : { key: transposeKey(parent, 9), mode: 'aeolian' }
+    }
+    case 'parallel':
+      return { key, mode: isMinor(mode) ? 'ionian' : 'aeolian' }
+  }
+}
+
+// Scale families. Diatonic plays the selected mode's seven notes; the others take
+// their major or minor form from the mode's third
+export type ScaleType = 'diatonic' | 'pentatonic' | 'blues' | 'chromatic'
+
+interface ScaleDefinition {
+  label: string
+  major?: readonly number[] // Semitones above the root, one octave
+  minor?: readonly number[]
+}
+
+const CHROMATIC_INTERVALS = Array.from({ length: 12 }, (_, semitone) => semitone)
+
+export const SCALES: Record<ScaleType, ScaleDefinition> = {
+  diatonic: { label: 'Diatonic (follows Mode)' },
+  pentatonic: { label: 'Pentatonic', major: [0, 2, 4, 7, 9], minor: [0, 3, 5, 7, 10] },
+  blues: { label: 'Blues', major: [0, 2, 3, 4, 7, 9], minor: [0, 3, 5, 6, 7, 10] },
+  chromatic: { label: 'Chromatic', major: CHROMATIC_INTERVALS, minor: CHROMATIC_INTERVALS },
+}
+
+// Name a MIDI pitch with a given spelling (e.g. Eb rather than D#)
+function spellMidi(pitchClass: string, midi: number): string {
+  const octave = Math.floor(midi / 12) - 1
+  // B# and Cb sit across the octave-number boundary
+  for (const candidate of [octave, octave - 1, octave + 1]) {
+    if (Note.midi(`${pitchClass}${candidate}`) === midi) return `${pitchClass}${candidate}`
+  }
+  return Note.fromMidiSharps(midi)
+}
+
 // Basic chord structures
 export const CHORD_LIBRARY = {
   triads: {
@@ -59,11 +150,30 @@ export const CHORD_LIBRARY = {
   }
 } as const
 
+// Notes per chord for each Chord setting (both the option values and their labels)
+const CHORD_TONE_COUNTS: Record<string, number> = {
+  none: 1,
+  'Single Notes Only': 1,
+  triads: 3,
+  'Basic Triads': 3,
+  seventh: 4,
+  'Seventh Chords': 4,
+  extended: 5,
+  'Extended Chords': 5,
+}
+
 export class MusicTheoryEngine {
   private currentKey: string = 'C'
   private currentMode: ModeType = 'ionian'
-  private currentScale: string = 'major'
+  // Key and mode as selected; the current ones drift from them on a harmonic journey
+  private homeKey: string = 'C'
+  private homeMode: ModeType = 'ionian'
+  private currentScale: ScaleType = 'diatonic'
   private currentChord: string = 'triads'
+  private voiceLeader = new VoiceLeader()
+  private journey = new HarmonicJourney()
+  private tuningSettings: TuningSettings = DEFAULT_TUNING
+  private tuning: Tuning | null = null // Null plays 12-TET
 
   constructor() {
     // Initialize with default values
@@ -75,10 +185,23 @@ export class MusicTheoryEngine {
     return digit - 2  // 2->0, 3->1, 4->2, ..., 9->7
   }
 
-  // Get the current scale notes based on key and mode
+  // Semitones above the root for one octave of the current scale
+  getScaleIntervals(): number[] {
+    const scale = SCALES[this.currentScale]
+    const intervals = isMinor(this.currentMode) ? scale.minor : scale.major
+    return [...(intervals ?? MODES[this.currentMode].intervals.slice(0, 7))]
+  }
+
+  // Get the current scale notes (one octave of pitch classes) based on key, mode and scale
   getCurrentScaleNotes(): string[] {
     const intervals = MODES[this.currentMode].intervals
     
+    if (this.currentScale !== 'diatonic') {
+      return this.getScaleIntervals().map(semitones =>
+        Note.pitchClass(Note.transpose(this.currentKey, Interval.fromSemitones(semitones)))
+      )
+    }
+    
     try {
       // Use Tonal.js to generate scale
       const scaleName = this.modeToScaleName(this.currentMode)
@@ -89,15 +212,7 @@ export class MusicTheoryEngine {
         return this.generateScaleManually(intervals)
       }
       
-      // Extend to 8 notes (including octave)
-      const extendedScale = [...scale.notes]
-      if (extendedScale.length < 8) {
-        // Add octave
-        const octaveNote = Note.transpose(extendedScale[0], '8P') // Perfect octave
-        extendedScale.push(octaveNote)
-      }
-      
-      return extendedScale.slice(0, 8) // Ensure exactly 8 notes
+      return scale.notes.slice(0, 7)
     } catch (error) {
       console.warn('Error generating scale with Tonal.js, using manual calculation:', error)
       return this.generateScaleManually(intervals)
@@ -126,10 +241,10 @@ export class MusicTheoryEngine {
     
     if (rootIndex === -1) {
       console.error(`Invalid key: ${this.currentKey}`)
-      return ['C', 'D', 'E', 'F', 'G', 'A', 'B', 'C'] // Fallback to C major
+      return ['C', 'D', 'E', 'F', 'G', 'A', 'B'] // Fallback to C major
     }
     
-    return intervals.map(interval => {
+    return intervals.slice(0, 7).map(interval => {
       const noteIndex = (rootIndex + interval) % 12
       return chromatic[noteIndex]
     })
@@ -141,19 +256,28 @@ export class MusicTheoryEngine {
     if (scaleDegree === null) return null
     
     const scaleNotes = this.getCurrentScaleNotes()
-    return scaleNotes[scaleDegree] || null
+    return scaleNotes[scaleDegree % scaleNotes.length] || null
   }
 
   // Convert digit to MIDI note number
   digitToMidiNote(digit: number, octave: number = 4): number | null {
-    const noteName = this.digitToNoteName(digit)
-    if (!noteName) return null
+    const scaleDegree = this.digitToScaleDegree(digit)
+    if (scaleDegree === null) return null
     
-    try {
-      return Note.midi(`${noteName}${octave}`) || null
-    } catch {
-      return null
-    }
+    const note = this.degreeToNote(scaleDegree, octave)
+    return note ? Note.midi(note) : null
+  }
+
+  // Single note for a scale degree; degrees past the end of the scale climb octaves
+  degreeToNote(degree: number, octave: number = 4): string | null {
+    const intervals = this.getScaleIntervals()
+    const scaleNotes = this.getCurrentScaleNotes()
+    const rootMidi = Note.midi(`${this.currentKey}${octave}`)
+    if (rootMidi === null || intervals.length !== scaleNotes.length) return null
+    
+    const step = degree % intervals.length
+    const midi = rootMidi + 12 * Math.floor(degree / intervals.length) + intervals[step]
+    return spellMidi(scaleNotes[step], midi)
   }
 
   // Convert digit to chord notes based on current settings
@@ -161,104 +285,111 @@ export class MusicTheoryEngine {
     const scaleDegree = this.digitToScaleDegree(digit)
     if (scaleDegree === null) return []
     
-    const scaleNotes = this.getCurrentScaleNotes()
-    const rootNote = scaleNotes[scaleDegree]
+    return this.degreeToChordNotes(scaleDegree, octave)
+  }
+
+  // Convert scale degree (0 = root, past the end of the scale climbs into higher octaves)
+  // to chord notes, lowest first. Chord tones stack every other scale step by pitch, so
+  // diatonic scales give thirds (in A major the third is C#5, above A4) and smaller
+  // scales give open voicings (a pentatonic triad on C is C-E-A). Stepping through the
+  // chromatic scale gives no thirds, so it plays parallel chords of the mode's quality
+  degreeToChordNotes(degree: number, octave: number = 4): string[] {
+    if (!Number.isInteger(degree) || degree < 0) return []
     
-    if (!rootNote) return []
+    const toneCount = CHORD_TONE_COUNTS[this.currentChord] ?? 1
     
-    switch (this.currentChord) {
-      case 'none':
-      case 'Single Notes Only':
-        return [`${rootNote}${octave}`]
-        
-      case 'triads':
-      case 'Basic Triads':
-        return this.buildTriadFromScale(scaleDegree, scaleNotes, octave)
-        
-      case 'seventh':
-      case 'Seventh Chords':
-        return this.buildSeventhFromScale(scaleDegree, scaleNotes, octave)
-        
-      case 'extended':
-      case 'Extended Chords':
-        return this.buildExtendedFromScale(scaleDegree, scaleNotes, octave)
-        
-      default:
-        return [`${rootNote}${octave}`]
+    if (this.currentScale === 'chromatic') {
+      const root = this.degreeToNote(degree, octave)
+      const rootMidi = root ? Note.midi(root) : null
+      if (!root || rootMidi === null) return []
+      
+      return this.parallelChordIntervals(toneCount).map(semitones => spellMidi(
+        Note.pitchClass(Note.transpose(root, Interval.fromSemitones(semitones))),
+        rootMidi + semitones
+      ))
     }
+    
+    const notes = Array.from({ length: toneCount }, (_, tone) => this.degreeToNote(degree + tone * 2, octave))
+    return notes.filter((note): note is string => note !== null)
   }
 
-  // Build triad from scale (1-3-5)
-  private buildTriadFromScale(scaleDegree: number, scaleNotes: string[], octave: number): string[] {
-    const rootIndex = scaleDegree
-    const scaleLength = 7 // Use 7 notes (without octave) for proper chord building
-    
-    const root = scaleNotes[rootIndex]
-    const third = scaleNotes[(rootIndex + 2) % scaleLength]
-    const fifth = scaleNotes[(rootIndex + 4) % scaleLength]
+  // Chord symbol for a set of notes, root first (e.g. "Dm7", "Bm7b5"), via Tonal's
+  // chord detection; null for single notes and shapes Tonal can't name
+  chordSymbol(notes: string[]): string | null {
+    if (notes.length < 3) return null
     
-    return [
-      `${root}${octave}`,
-      `${third}${octave}`,
-      `${fifth}${octave + (rootIndex + 4 >= scaleLength ? 1 : 0)}` // Handle octave jump
-    ]
+    const pitchClasses = notes.map(note => Note.pitchClass(note))
+    const symbols = Chord.detect(pitchClasses)
+    // Prefer a name rooted on the bass note over slash-chord readings
+    const symbol = symbols.find(name => Chord.get(name).tonic === pitchClasses[0]) ?? symbols[0]
+    // Tonal writes major triads as "CM"
+    return symbol ? symbol.replace(/^([A-G][#b]*)M$/, '$1') : null
   }
 
-  // Build seventh chord from scale (1-3-5-7)
-  private buildSeventhFromScale(scaleDegree: number, scaleNotes: string[], octave: number): string[] {
-    const rootIndex = scaleDegree
-    const scaleLength = 7
-    
-    const root = scaleNotes[rootIndex]
-    const third = scaleNotes[(rootIndex + 2) % scaleLength]
-    const fifth = scaleNotes[(rootIndex + 4) % scaleLength]
-    const seventh = scaleNotes[(rootIndex + 6) % scaleLength]
-    
-    return [
-      `${root}${octave}`,
-      `${third}${octave}`,
-      `${fifth}${octave + (rootIndex + 4 >= scaleLength ? 1 : 0)}`,
-      `${seventh}${octave + (rootIndex + 6 >= scaleLength ? 1 : 0)}`
-    ]
-  }
-
-  // Build extended chord from scale (1-3-5-7-9)
-  private buildExtendedFromScale(scaleDegree: number, scaleNotes: string[], octave: number): string[] {
-    const rootIndex = scaleDegree
-    const scaleLength = 7
-    
-    const root = scaleNotes[rootIndex]
-    const third = scaleNotes[(rootIndex + 2) % scaleLength]
-    const fifth = scaleNotes[(rootIndex + 4) % scaleLength]
-    const seventh = scaleNotes[(rootIndex + 6) % scaleLength]
-    const ninth = scaleNotes[(rootIndex + 1) % scaleLength] // 9th is same as 2nd
+  // Chord symbol for a digit with the current settings
+  digitToChordSymbol(digit: number): string | null {
+    return this.chordSymbol(this.digitToChordNotes(digit))
+  }
+
+  // Chord shape for the chromatic scale, major or minor to match the mode
+  private parallelChordIntervals(toneCount: number): readonly number[] {
+    const minor = isMinor(this.currentMode)
+    switch (toneCount) {
+      case 3:
+        return minor ? CHORD_LIBRARY.triads.minor : CHORD_LIBRARY.triads.major
+      case 4:
+        return minor ? CHORD_LIBRARY.seventh.m7 : CHORD_LIBRARY.seventh.maj7
+      case 5:
+        return minor ? CHORD_LIBRARY.extended.m9 : CHORD_LIBRARY.extended.maj9
+      default:
+        return [0]
+    }
+  }
+
+  // Note a number of semitones above the key root (for chromatic mappings)
+  semitoneToNote(semitone: number, octave: number = 4): string | null {
+    const rootMidi = Note.midi(`${this.currentKey}${octave}`)
+    if (rootMidi === null) return null
     
-    return [
-      `${root}${octave}`,
-      `${third}${octave}`,
-      `${fifth}${octave + (rootIndex + 4 >= scaleLength ? 1 : 0)}`,
-      `${seventh}${octave + (rootIndex + 6 >= scaleLength ? 1 : 0)}`,
-      `${ninth}${octave + 1}` // 9th is always in next octave
-    ]
+    return Note.fromMidiSharps(rootMidi + semitone)
+  }
+
+  // Notes a melody digit role sounds with the current settings, root position
+  roleToNotes(role: DigitRole, octave: number = 4): string[] {
+    switch (role.type) {
+      case 'degree':
+        return this.degreeToChordNotes(role.degree, octave)
+      case 'chromatic': {
+        const note = this.semitoneToNote(role.semitone, octave)
+        return note ? [note] : []
+      }
+      default:
+        return []
+    }
   }
 
   // Update settings
+  // Key and mode set the home key center, and a journey starts over from it
   setKey(key: string) {
-    const validKeys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
-    if (!validKeys.includes(key)) {
-      throw new Error(`Invalid key: ${key}. Valid keys: ${validKeys.join(', ')}`)
+    if (!KEYS.includes(key)) {
+      throw new Error(`Invalid key: ${key}. Valid keys: ${KEYS.join(', ')}`)
     }
-    this.currentKey = key
+    this.homeKey = key
+    this.resetHarmonicJourney()
   }
 
   setMode(mode: ModeType) {
     if (!MODES[mode]) {
       throw new Error(`Invalid mode: ${mode}. Valid modes: ${Object.keys(MODES).join(', ')}`)
     }
-    this.currentMode = mode
+    this.homeMode = mode
+    this.resetHarmonicJourney()
   }
 
-  setScale(scale: string) {
+  setScale(scale: ScaleType) {
+    if (!SCALES[scale]) {
+      throw new Error(`Invalid scale: ${scale}. Valid scales: ${Object.keys(SCALES).join(', ')}`)
+    }
     this.currentScale = scale
   }
 
@@ -266,6 +397,141 @@ export class MusicTheoryEngine {
     this.currentChord = chord
   }
 
+  // Voice leading between successive chords (see voiceLeading.ts)
+  setVoiceLeading(settings: VoiceLeadingSettings) {
+    if (settings.lowest + 12 > settings.highest) {
+      throw new Error(`Voice leading range must span at least an octave: ${settings.lowest}-${settings.highest}`)
+    }
+    this.voiceLeader.setSettings(settings)
+  }
+
+  getVoiceLeading(): VoiceLeadingSettings {
+    return this.voiceLeader.getSettings()
+  }
+
+  // Re-voice a chord against the previous one played
+  voiceLeadChord(notes: string[]): string[] {
+    return this.voiceLeader.voice(notes)
+  }
+
+  resetVoiceLeading() {
+    this.voiceLeader.reset()
+  }
+
+  // Digit-driven modulation (see harmonicJourney.ts)
+  setHarmonicJourney(settings: HarmonicJourneySettings) {
+    if (!Number.isInteger(settings.every) || settings.every < 0) {
+      throw new Error(`Journey interval must be a whole number of digits: ${settings.every}`)
+    }
+    if (!/^[0-9A-Za-z]*$/.test(settings.pattern)) {
+      throw new Error(`Journey pattern must be digits: ${settings.pattern}`)
+    }
+    if (settings.enabled && settings.moves.length === 0) {
+      throw new Error('Harmonic journey needs at least one move')
+    }
+    // Stream digits above 9 are upper case, so a lower-case pattern would never match
+    this.journey.setSettings({ ...settings, pattern: settings.pattern.toUpperCase() })
+    this.resetHarmonicJourney()
+  }
+
+  getHarmonicJourney(): HarmonicJourneySettings {
+    return this.journey.getSettings()
+  }
+
+  // Back to the home key, e.g. when playback restarts
+  resetHarmonicJourney() {
+    this.currentKey = this.homeKey
+    this.currentMode = this.homeMode
+    this.journey.reset()
+  }
+
+  getKeyCenter(): KeyCenter {
+    return { key: this.currentKey, mode: this.currentMode }
+  }
+
+  // A digit is about to play; modulates first if the journey calls for it
+  advanceJourney(digit: string): JourneyStep | null {
+    const next = this.journey.onDigit(digit)
+    return next ? this.applyJourneyMove(next.move, next.trigger) : null
+  }
+
+  // Modulate now with the move the digit picks, journey on or not (pattern events)
+  modulate(digit: string): JourneyStep {
+    return this.applyJourneyMove(this.journey.pickMove(digit), 'detector')
+  }
+
+  private applyJourneyMove(move: JourneyMove, trigger: JourneyTrigger): JourneyStep {
+    const from = this.getKeyCenter()
+    const to = moveKeyCenter(from, move)
+    this.currentKey = to.key
+    this.currentMode = to.mode
+    return { from, to, move, trigger }
+  }
+
+  // Alternate tunings (see tuning.ts)
+  setTuning(settings: TuningSettings) {
+    this.tuning = createTuning(settings)
+    this.tuningSettings = settings
+  }
+
+  getTuning(): TuningSettings {
+    return this.tuningSettings
+  }
+
+  // What the synths should play for a role's notes (as voiced): the names
+  // themselves in 12-TET, otherwise each note's frequency at its tuning step above
+  // the current key. Notes a keyboard mapping leaves unmapped are dropped
+  tunePitches(role: DigitRole, notes: string[]): (string | number)[] {
+    const tuning = this.tuning
+    const rootMidi = Note.midi(`${this.currentKey}4`)
+    if (!tuning || rootMidi === null) return notes
+
+    const stepsPerPeriod = tuning.stepsPerPeriod
+    const sources = this.roleSteps(role, rootMidi, stepsPerPeriod)
+    const frequencies = notes.map(note => {
+      const midi = Note.midi(note)
+      // Voice leading and modifiers only move notes by octaves, which become periods
+      const source = midi === null ? undefined : sources.find(tone => (midi - tone.midi) % 12 === 0)
+      if (midi === null || !source) return null
+      return tuning.stepFrequency(source.step + (stepsPerPeriod * (midi - source.midi)) / 12, rootMidi)
+    })
+    return frequencies.filter((frequency): frequency is number => frequency !== null)
+  }
+
+  // Tuning steps of a role's root-position notes, with their 12-TET pitches. With 12
+  // steps per period a note's step is its semitones above the root; with any other
+  // number, degrees and chord tones count steps of the tuning instead of the scale
+  private roleSteps(role: DigitRole, rootMidi: number, stepsPerPeriod: number): { midi: number; step: number }[] {
+    const pitches = this.roleToNotes(role).map(note => Note.midi(note))
+    let steps: number[]
+    if (stepsPerPeriod === 12) {
+      steps = pitches.map(midi => (midi ?? rootMidi) - rootMidi)
+    } else if (role.type === 'chromatic') {
+      steps = [role.semitone]
+    } else if (role.type === 'degree' && this.currentScale === 'chromatic') {
+      steps = this.parallelChordIntervals(pitches.length).map(semitones => role.degree + semitones)
+    } else if (role.type === 'degree') {
+      steps = pitches.map((_, tone) => role.degree + tone * 2)
+    } else {
+      return []
+    }
+    return pitches.flatMap((midi, tone) => (midi === null ? [] : [{ midi, step: steps[tone] }]))
+  }
+
+  // Same settings from the home key, with fresh voice-leading and journey state,
+  // so exports can play a sequence through without disturbing live playback
+  clone(): MusicTheoryEngine {
+    const copy = new MusicTheoryEngine()
+    copy.setKey(this.homeKey)
+    copy.setMode(this.homeMode)
+    copy.setScale(this.currentScale)
+    copy.setChord(this.currentChord)
+    copy.setVoiceLeading(this.voiceLeader.getSettings())
+    copy.setHarmonicJourney(this.journey.getSettings())
+    copy.setTuning(this.tuningSettings)
+    return copy
+  }
+
   // Get current settings
   getCurrentSettings() {
     return {
@@ -273,6 +539,11 @@ export class MusicTheoryEngine {
       mode: this.currentMode,
       scale: this.currentScale,
       chord: this.currentChord,
+      homeKey: this.homeKey,
+      homeMode: this.homeMode,
+      voiceLeading: this.voiceLeader.getSettings(),
+      harmonicJourney: this.journey.getSettings(),
+      tuning: this.tuningSettings,
       scaleNotes: this.getCurrentScaleNotes(),
       modeCharacter: MODES[this.currentMode].character
     }
@@ -290,7 +561,8 @@ export class MusicTheoryEngine {
       const scaleDegree = this.digitToScaleDegree(digit)
       const noteName = this.digitToNoteName(digit)
       const chordNotes = this.digitToChordNotes(digit)
-      console.log(`  ${digit} → Scale degree ${scaleDegree} → ${noteName} → [${chordNotes.join(', ')}]`)
+      const symbol = this.chordSymbol(chordNotes)
+      console.log(`  ${digit} → Scale degree ${scaleDegree} → ${noteName} → [${chordNotes.join(', ')}]${symbol ? ` ${symbol}` : ''}`)
     }
   }
 }
\ No newline at end of file
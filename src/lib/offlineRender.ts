@@ -0,0 +1,54 @@
+import { Offline } from 'tone'
+import { AudioEngine } from './audioEngine'
+import { isPitchedDigit } from './radixMapping'
+import { digitsPerMinute, type RhythmSettings } from './rhythm'
+import { DigitSequencer } from './sequencer'
+
+// Silence left after the last digit for releases and reverb tails
+const TAIL_SECONDS = 4
+
+export interface OfflineRenderOptions {
+  digits: string[] // Digit symbols to play, in order
+  tempo: number
+  rhythm: RhythmSettings
+  radix: number
+  // Live engine whose synth, reverb and music theory settings are copied (the
+  // reverbs' seeds among them, so the same settings always render the same file)
+  settingsFrom: AudioEngine
+}
+
+export function offlineRenderSeconds(digitCount: number, tempo: number, rhythm: RhythmSettings): number {
+  return (digitCount * 60) / digitsPerMinute(tempo, rhythm.grid) + TAIL_SECONDS
+}
+
+// Render a digit sequence faster than real time, through the same engine and
+// sequencer as live playback
+export async function renderDigitsOffline(options: OfflineRenderOptions): Promise<AudioBuffer> {
+  const { digits, tempo, rhythm, radix, settingsFrom } = options
+  const duration = offlineRenderSeconds(digits.length, tempo, rhythm)
+  const radixRoles = settingsFrom.getRadixRoles()
+
+  const rendered = await Offline(async () => {
+    const engine = new AudioEngine()
+    await engine.initialize({ startContext: false })
+    settingsFrom.copySettingsTo(engine)
+    engine.setRadix(radix)
+    await engine.whenLoaded()
+
+    const sequencer = new DigitSequencer({
+      getDigit: (index) => digits[index],
+      isExhausted: () => true,
+      isTieable: (digit) => isPitchedDigit(digit, radix, radixRoles),
+      playDigit: (digit, time, noteOptions) => engine.playDigit(digit, time, noteOptions),
+      onDigit: (digit, index, time) => engine.watchDigit(digit, index, time),
+    })
+    sequencer.setTempo(tempo)
+    engine.retimeEffects()
+    sequencer.setRhythm(rhythm)
+    sequencer.start(-1)
+  }, duration)
+
+  const buffer = rendered.get()
+  if (!buffer) throw new Error('Offline render produced no audio')
+  return buffer
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PATTERN_DETECTION, PatternDetector, type PatternMatch } from './patternDetector'
+
+const ENABLED = { ...DEFAULT_PATTERN_DETECTION, enabled: true }
+
+// Pushes digits from a stream index, returning what each one matched
+function pushAll(detector: PatternDetector, digits: string, start = 0): PatternMatch[][] {
+  return [...digits].map((digit, offset) => detector.push(digit, start + offset))
+}
+
+// What the last of the digits matched
+function pushLast(detector: PatternDetector, digits: string, start = 0): PatternMatch[] {
+  const matches = pushAll(detector, digits, start)
+  return matches[matches.length - 1]
+}
+
+describe('PatternDetector', () => {
+  it('finds nothing while disabled', () => {
+    const detector = new PatternDetector()
+    expect(pushAll(detector, '999').flat()).toEqual([])
+  })
+
+  it('follows the Feynman point as one growing repeat', () => {
+    // Pi's six 9s sit at decimal places 762-767
+    const detector = new PatternDetector(ENABLED)
+    const repeats = pushAll(detector, '3499999983', 760).map(matches =>
+      matches.filter(match => match.kind === 'repeat'),
+    )
+
+    // Nothing until the third 9, then one match grown digit by digit
+    expect(repeats.slice(0, 4).flat()).toEqual([])
+    expect(repeats[4]).toEqual([{ id: 1, kind: 'repeat', start: 762, end: 764, text: '999', isNew: true }])
+    expect(repeats[7]).toEqual([{ id: 1, kind: 'repeat', start: 762, end: 767, text: '999999', isNew: false }])
+    expect(repeats[8]).toEqual([])
+  })
+
+  it('finds ascending and descending runs at their minimum length', () => {
+    const detector = new PatternDetector(ENABLED)
+    expect(pushLast(detector, '1234')).toMatchObject([{ kind: 'ascending', text: '1234', isNew: true }])
+
+    detector.reset()
+    expect(pushLast(detector, '987')).toEqual([])
+    expect(detector.push('6', 3)).toMatchObject([{ kind: 'descending', text: '9876' }])
+  })
+
+  it('finds palindromes but not repeats of one digit', () => {
+    const detector = new PatternDetector(ENABLED)
+    expect(pushLast(detector, '12321')).toMatchObject([{ kind: 'palindrome', start: 0, end: 4 }])
+
+    detector.reset()
+    expect(pushLast(detector, '77777').map(match => match.kind)).toEqual(['repeat'])
+  })
+
+  it('finds custom substrings each time they end', () => {
+    const detector = new PatternDetector(ENABLED)
+    const found = pushAll(detector, '3141593141').flat().filter(match => match.kind === 'custom')
+    expect(found).toMatchObject([{ text: '314159', start: 0, end: 5, isNew: true }])
+  })
+
+  it('breaks patterns on the decimal point and on jumps in the stream', () => {
+    const detector = new PatternDetector(ENABLED)
+    pushAll(detector, '99')
+    expect(detector.push('.', 2)).toEqual([])
+    expect(detector.push('9', 3)).toEqual([])
+
+    pushAll(detector, '99', 10)
+    expect(detector.push('9', 20)).toEqual([])
+  })
+})
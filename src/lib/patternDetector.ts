@@ -0,0 +1,180 @@
+// Pattern detection over the digit stream: repeats (the Feynman point's six 9s),
+// ascending/descending runs, palindromes and user-chosen substrings
+
+export type PatternKind = 'repeat' | 'ascending' | 'descending' | 'palindrome' | 'custom'
+
+// What the engine plays when a pattern is found
+export type PatternEvent = 'none' | 'fill' | 'crash' | 'keyChange'
+
+export interface PatternDetectionSettings {
+  enabled: boolean
+  // Shortest run that counts, per built-in kind
+  minLength: Record<Exclude<PatternKind, 'custom'>, number>
+  custom: string[] // Substrings to watch for, e.g. "314159"
+  events: Record<PatternKind, PatternEvent>
+}
+
+// Off by default; with it on, patterns are highlighted but play nothing until assigned
+export const DEFAULT_PATTERN_DETECTION: PatternDetectionSettings = {
+  enabled: false,
+  minLength: { repeat: 3, ascending: 4, descending: 4, palindrome: 5 },
+  custom: ['314159'],
+  events: { repeat: 'none', ascending: 'none', descending: 'none', palindrome: 'none', custom: 'none' },
+}
+
+export const PATTERN_KIND_LABELS: Record<PatternKind, string> = {
+  repeat: 'Repeats (999)',
+  ascending: 'Ascending runs (1234)',
+  descending: 'Descending runs (4321)',
+  palindrome: 'Palindromes (12321)',
+  custom: 'Custom substrings',
+}
+
+export const PATTERN_EVENT_LABELS: Record<PatternEvent, string> = {
+  none: 'Highlight only',
+  fill: 'Hi-hat fill',
+  crash: 'Crash',
+  keyChange: 'Key change',
+}
+
+export interface PatternMatch {
+  id: number // Stays the same while a match grows digit by digit
+  kind: PatternKind
+  start: number // Stream index of the first digit
+  end: number // Stream index of the last digit (the one just pushed)
+  text: string
+  isNew: boolean // False when an earlier match was extended by this digit
+}
+
+// Digits kept for matching; longer patterns are still followed as they grow
+const HISTORY_LENGTH = 64
+
+type RunKind = 'repeat' | 'ascending' | 'descending'
+
+// Difference between neighbouring digit values that continues each run
+const RUN_STEPS: Record<RunKind, number> = { repeat: 0, ascending: 1, descending: -1 }
+
+function digitValue(digit: string): number {
+  return parseInt(digit, 36)
+}
+
+function isPalindrome(text: string): boolean {
+  for (let i = 0, j = text.length - 1; i < j; i++, j--) {
+    if (text[i] !== text[j]) return false
+  }
+  return true
+}
+
+export class PatternDetector {
+  private settings: PatternDetectionSettings
+  private history = '' // Recent digits, newest last
+  private historyEnd = -1 // Stream index of the newest digit
+  private nextId = 1
+  // Matches still growing, by kind
+  private active = new Map<Exclude<PatternKind, 'custom'>, PatternMatch>()
+
+  constructor(settings: PatternDetectionSettings = DEFAULT_PATTERN_DETECTION) {
+    this.settings = PatternDetector.copySettings(settings)
+  }
+
+  private static copySettings(settings: PatternDetectionSettings): PatternDetectionSettings {
+    return {
+      ...settings,
+      minLength: { ...settings.minLength },
+      custom: [...settings.custom],
+      events: { ...settings.events },
+    }
+  }
+
+  setSettings(settings: PatternDetectionSettings) {
+    this.settings = PatternDetector.copySettings(settings)
+    this.reset()
+  }
+
+  getSettings(): PatternDetectionSettings {
+    return PatternDetector.copySettings(this.settings)
+  }
+
+  reset() {
+    this.history = ''
+    this.historyEnd = -1
+    this.active.clear()
+  }
+
+  // A digit at a stream index; returns every pattern ending on it, new or grown
+  push(digit: string, index: number): PatternMatch[] {
+    if (!this.settings.enabled) return []
+
+    // Non-digits (the decimal point) and jumps in the stream break every pattern
+    if (Number.isNaN(digitValue(digit)) || index !== this.historyEnd + 1) this.reset()
+    this.historyEnd = index
+    if (Number.isNaN(digitValue(digit))) return []
+
+    this.history = (this.history + digit).slice(-HISTORY_LENGTH)
+
+    const matches: PatternMatch[] = []
+    for (const kind of Object.keys(RUN_STEPS) as RunKind[]) {
+      const match = this.track(kind, this.runLength(RUN_STEPS[kind]))
+      if (match) matches.push(match)
+    }
+
+    const palindrome = this.track('palindrome', this.palindromeLength())
+    if (palindrome) matches.push(palindrome)
+
+    for (const pattern of this.settings.custom) {
+      if (pattern && this.history.endsWith(pattern)) {
+        matches.push(this.match('custom', pattern.length, null))
+      }
+    }
+    return matches
+  }
+
+  // Digits in the run ending on the newest digit, each differing from the last by `step`
+  private runLength(step: number): number {
+    let length = 1
+    while (
+      length < this.history.length &&
+      digitValue(this.history[this.history.length - length]) -
+        digitValue(this.history[this.history.length - length - 1]) === step
+    ) {
+      length++
+    }
+    return length
+  }
+
+  // Longest palindrome ending on the newest digit; single-digit repeats count as repeats
+  private palindromeLength(): number {
+    for (let length = this.history.length; length >= this.settings.minLength.palindrome; length--) {
+      const text = this.history.slice(-length)
+      if (isPalindrome(text) && new Set(text).size > 1) return length
+    }
+    return 0
+  }
+
+  // Follow a kind's current match: grow the active one, start a new one or drop it
+  private track(kind: Exclude<PatternKind, 'custom'>, length: number): PatternMatch | null {
+    if (length < this.settings.minLength[kind]) {
+      this.active.delete(kind)
+      return null
+    }
+
+    // The same match grown by a digit at its end (palindromes also grow at the front)
+    const previous = this.active.get(kind)
+    const start = this.historyEnd - length + 1
+    const grew = previous && previous.end === this.historyEnd - 1 && start <= previous.start && start >= previous.start - 1
+    const match = this.match(kind, length, grew ? previous.id : null)
+    this.active.set(kind, match)
+    return match
+  }
+
+  private match(kind: PatternKind, length: number, id: number | null): PatternMatch {
+    return {
+      id: id ?? this.nextId++,
+      kind,
+      start: this.historyEnd - length + 1,
+      end: this.historyEnd,
+      text: this.history.slice(-length),
+      isNew: id === null,
+    }
+  }
+}
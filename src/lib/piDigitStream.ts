@@ -0,0 +1,180 @@
+import type { DigitSourceConfig } from './digitSources'
+import type { PiWorkerRequest, PiWorkerResponse } from './piWorkerProtocol'
+
+// A failed chunk is asked for again this many times, waiting a little longer each
+// time, before the error is reported
+const MAX_PREFETCH_RETRIES = 3
+const RETRY_DELAY_MS = 500
+
+// Main-thread side of the pi worker: keeps a prefetched buffer of digits so
+// the UI and audio clock never wait on the BigInt computation
+export class PiDigitStream {
+  private worker: Worker
+  private buffer = ''
+  private nextOffset = 1 // Place of the first digit not yet requested
+  private pendingId: number | null = null
+  private exhausted = false // A finite source has run out
+  private source: DigitSourceConfig = { kind: 'pi' }
+  private radix = 10
+  private nextId = 1
+  private onAvailable?: (available: number) => void
+  private onProgress?: (computed: number, target: number) => void
+  private onError?: (message: string) => void
+  private retries = 0
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  // One-off requests (see request()), answered outside the buffer
+  private requests = new Map<number, { resolve: (digits: string) => void; reject: (error: Error) => void }>()
+
+  constructor(
+    private readonly chunkSize = 200,
+    private readonly lowWaterMark = 100
+  ) {
+    this.worker = new Worker(new URL('./piWorker.ts', import.meta.url), {
+      type: 'module',
+    })
+    this.worker.addEventListener('message', this.handleMessage)
+    this.prefetch()
+  }
+
+  // Called whenever new digits land in the buffer
+  setAvailableCallback(callback: (available: number) => void) {
+    this.onAvailable = callback
+  }
+
+  // Called while the worker is computing a chunk
+  setProgressCallback(callback: (computed: number, target: number) => void) {
+    this.onProgress = callback
+  }
+
+  // Called when the worker keeps failing to compute the next chunk; the buffer
+  // stops filling until the next reset
+  setErrorCallback(callback: (message: string) => void) {
+    this.onError = callback
+  }
+
+  get available(): number {
+    return this.buffer.length
+  }
+
+  // A finite source has run out and everything buffered has been taken
+  get finished(): boolean {
+    return this.exhausted && this.buffer.length === 0
+  }
+
+  // Take up to `count` buffered digits without blocking; may return fewer
+  take(count: number): string {
+    const result = this.buffer.slice(0, count)
+    this.buffer = this.buffer.slice(result.length)
+    this.prefetch()
+    return result
+  }
+
+  // Digits for a one-off job such as an export, computed by the worker without
+  // touching the buffer. A finite source may give fewer than asked for
+  request(offset: number, count: number, source: DigitSourceConfig = this.source, radix = this.radix): Promise<string> {
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      this.requests.set(id, { resolve, reject })
+      this.send({ type: 'request', id, source, radix, offset, count })
+    })
+  }
+
+  // Drop everything buffered or in flight and continue from a place after the
+  // point, optionally switching to another digit source or radix
+  reset(startPosition = 1, source: DigitSourceConfig = this.source, radix = this.radix) {
+    if (this.pendingId !== null) {
+      this.send({ type: 'cancel', id: this.pendingId })
+      this.pendingId = null
+    }
+    this.clearRetry()
+    this.retries = 0
+    this.source = source
+    this.radix = radix
+    this.buffer = ''
+    this.exhausted = false
+    this.nextOffset = startPosition
+    this.prefetch()
+  }
+
+  dispose() {
+    this.clearRetry()
+    this.worker.removeEventListener('message', this.handleMessage)
+    this.worker.terminate()
+    for (const { reject } of this.requests.values()) reject(new Error('Digit stream disposed'))
+    this.requests.clear()
+  }
+
+  private prefetch() {
+    if (this.pendingId !== null || this.retryTimer !== null || this.exhausted || this.buffer.length >= this.lowWaterMark) {
+      return
+    }
+    if (this.retries > MAX_PREFETCH_RETRIES) return // Given up until the next reset
+
+    const id = this.nextId++
+    this.pendingId = id
+    this.send({
+      type: 'request',
+      id,
+      source: this.source,
+      radix: this.radix,
+      offset: this.nextOffset,
+      count: this.chunkSize,
+    })
+  }
+
+  private clearRetry() {
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+  }
+
+  private send(message: PiWorkerRequest) {
+    this.worker.postMessage(message)
+  }
+
+  private handleMessage = (event: MessageEvent<PiWorkerResponse>) => {
+    const message = event.data
+    const request = this.requests.get(message.id)
+    if (request) {
+      if (message.type === 'digits') request.resolve(message.digits)
+      else if (message.type === 'error') request.reject(new Error(message.message))
+      if (message.type !== 'progress') this.requests.delete(message.id)
+      return
+    }
+
+    // Ignore anything from requests we've since cancelled
+    if (message.id !== this.pendingId) return
+
+    switch (message.type) {
+      case 'progress':
+        this.onProgress?.(message.computed, message.target)
+        break
+
+      case 'digits':
+        this.pendingId = null
+        this.retries = 0
+        this.buffer += message.digits
+        this.nextOffset = message.offset + message.digits.length
+        this.exhausted = message.digits.length < this.chunkSize
+        this.onAvailable?.(this.buffer.length)
+        this.prefetch()
+        break
+
+      case 'cancelled':
+        this.pendingId = null
+        break
+
+      case 'error':
+        this.pendingId = null
+        this.retries++
+        if (this.retries > MAX_PREFETCH_RETRIES) {
+          this.onError?.(message.message)
+          break
+        }
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null
+          this.prefetch()
+        }, RETRY_DELAY_MS * this.retries)
+        break
+    }
+  }
+}
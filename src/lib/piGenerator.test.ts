@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { PiGenerator, computePiDigits, digitAt, digitsFrom } from './piGenerator'
+
+describe('digitAt', () => {
+  it('counts places from the decimal point', () => {
+    expect(digitAt(0)).toBe(3)
+    expect(digitAt(1)).toBe(1)
+    expect(digitAt(2)).toBe(4)
+  })
+
+  it('reads the last precomputed digit', () => {
+    expect(digitAt(1000)).toBe(9)
+  })
+
+  it('computes digits past the precomputed ones', () => {
+    expect(digitAt(1001)).toBe(3)
+    expect(digitsFrom(1001, 10)).toBe('3809525720')
+  })
+
+  it('rejects positions that are not whole and non-negative', () => {
+    expect(() => digitAt(-1)).toThrow(RangeError)
+    expect(() => digitAt(1.5)).toThrow(RangeError)
+  })
+})
+
+describe('digitsFrom', () => {
+  it('finds the Feynman point', () => {
+    expect(digitsFrom(762, 6)).toBe('999999')
+  })
+
+  it('matches the precomputed digits when computed from scratch', () => {
+    expect(computePiDigits(1000)).toBe(digitsFrom(1, 1000))
+  })
+
+  it('reads pi in hex', () => {
+    expect(digitsFrom(1, 16, 16)).toBe('243F6A8885A308D3')
+    expect(digitAt(1, 16)).toBe(2)
+  })
+})
+
+describe('PiGenerator', () => {
+  it('streams from a start position', () => {
+    const generator = new PiGenerator(762)
+    expect(generator.generateDigits(6)).toBe('999999')
+    expect(generator.generateNextDigit()).toBe('8')
+  })
+})
@@ -1,60 +1,127 @@
-// Pi digit generator - using a verified sequence with ability to extend
+// First 1000 digits of pi (after 3.), used to seed the cache
+const PRECOMPUTED_DIGITS = "1415926535897932384626433832795028841971693993751058209749445923078164062862089986280348253421170679821480865132823066470938446095505822317253594081284811174502841027019385211055596446229489549303819644288109756659334461284756482337867831652712019091456485669234603486104543266482133936072602491412737245870066063155881748815209209628292540917153643678925903600113305305488204665213841469519415116094330572703657595919530921861173819326117931051185480744623799627495673518857527248912279381830119491298336733624406566430860213949463952247371907021798609437027705392171762931767523846748184676694051320005681271452635608277857713427577896091736371787214684409012249534301465495853710507922796892589235420199561121290219608640344181598136297747713099605187072113499999983729780499510597317328160963185950244594553469083026425223082533446850352619311881710100031378387528865875332083814206171776691473035982534904287554687311595628638823537875937519577818577805321712268066130019278766111959092164201989"
+
+// Fractional digits of pi computed so far, per radix, shared by every generator and lookup
+const cachedDigits = new Map<number, string>([[10, PRECOMPUTED_DIGITS]])
+
+function cachedDigitsFor(radix: number): string {
+  return cachedDigits.get(radix) ?? ''
+}
+
+// Make sure at least `length` digits are cached and return how many are.
+// Precision doubles each time so recomputing from scratch stays amortised
+export function ensurePiDigits(length: number, radix = 10): number {
+  const cached = cachedDigitsFor(radix)
+  if (length <= cached.length) return cached.length
+
+  const digits = computePiDigits(Math.max(length, cached.length * 2), radix)
+  cachedDigits.set(radix, digits)
+  return digits.length
+}
+
+// Pi digit generator - streams digits from the shared arbitrary-precision cache
 export class PiGenerator {
-  // First 1000 digits of pi (after 3.)
-  private readonly piSequence = "1415926535897932384626433832795028841971693993751058209749445923078164062862089986280348253421170679821480865132823066470938446095505822317253594081284811174502841027019385211055596446229489549303819644288109756659334461284756482337867831652712019091456485669234603486104543266482133936072602491412737245870066063155881748815209209628292540917153643678925903600113305305488204665213841469519415116094330572703657595919530921861173819326117931051185480744623799627495673518857527248912279381830119491298336733624406566430860213949463952247371907021798609437027705392171762931767523846748184676694051320005681271452635608277857713427577896091736371787214684409012249534301465495853710507922796892589235420199561121290219608640344181598136297747713099605187072113499999983729780499510597317328160963185950244594553469083026425223082533446850352619311881710100031378387528865875332083814206171776691473035982534904287554687311595628638823537875937519577818577805321712268066130019278766111959092164201989"
   private position = 0
 
-  constructor() {
-    // Start at beginning of sequence
+  constructor(private readonly startPosition = 1) {
+    this.seek(startPosition)
   }
 
   // Generate next digit of pi
   generateNextDigit(): string {
-    if (this.position < this.piSequence.length) {
-      const digit = this.piSequence[this.position]
-      this.position++
-      return digit
-    }
-    
-    // If we run out of pre-computed digits, generate using Machin's formula
-    // For now, just cycle back (in production, would compute more)
-    this.position = 0
-    return this.piSequence[this.position++]
+    ensurePiDigits(this.position + 1)
+    return cachedDigitsFor(10)[this.position++]
   }
 
   // Generate multiple digits at once
   generateDigits(count: number): string {
-    let result = ''
-    for (let i = 0; i < count; i++) {
-      result += this.generateNextDigit()
-    }
+    ensurePiDigits(this.position + count)
+    const result = cachedDigitsFor(10).slice(this.position, this.position + count)
+    this.position += count
     return result
   }
+
+  // Jump to a decimal place (1 = the first digit after "3.")
+  seek(position: number): void {
+    if (!Number.isInteger(position) || position < 1) {
+      throw new RangeError(`Invalid pi digit position: ${position}`)
+    }
+    this.position = position - 1
+  }
   
   // Reset to start
   reset(): void {
-    this.position = 0
+    this.seek(this.startPosition)
+  }
+}
+
+// Extra decimal digits carried through the fixed-point arithmetic to absorb truncation error
+const GUARD_DIGITS = 20
+
+// The same guard expressed in digits of another radix
+export function guardDigitsFor(radix: number): number {
+  return Math.ceil((GUARD_DIGITS * Math.log(10)) / Math.log(radix))
+}
+
+// arctan(1/x) scaled by `unity`, using the Taylor series in BigInt fixed point
+function arctanInverse(x: bigint, unity: bigint): bigint {
+  const xSquared = x * x
+  let power = unity / x
+  let sum = power
+  let n = 1n
+  let sign = -1n
+
+  while (power !== 0n) {
+    power /= xSquared
+    n += 2n
+    sum += sign * (power / n)
+    sign = -sign
   }
+
+  return sum
+}
+
+// Pi scaled by `unity` using Machin's formula:
+// pi = 16 * arctan(1/5) - 4 * arctan(1/239)
+export function evaluatePi(unity: bigint): bigint {
+  return 16n * arctanInverse(5n, unity) - 4n * arctanInverse(239n, unity)
+}
+
+// First `count` fractional digits of pi in the given radix (2-36), upper-case
+// symbols, e.g. "243F6A88..." in hex
+export function computePiDigits(count: number, radix = 10): string {
+  if (count <= 0) return ''
+
+  const base = BigInt(radix)
+  const guard = guardDigitsFor(radix)
+  const truncated = evaluatePi(base ** BigInt(count + guard)) / base ** BigInt(guard)
+
+  // Drop the integer part ("3", or "11" in binary)
+  const integerLength = (3).toString(radix).length
+  return truncated.toString(radix).toUpperCase().slice(integerLength, integerLength + count)
 }
 
-// Alternative: Bailey-Borwein-Plouffe formula for nth digit
-// This can calculate any digit of pi without calculating previous digits
-export function getNthPiDigit(n: number): number {
+// Digit of pi at place n after the point (0 is the integer part, 1 is the first
+// digit after the point). The first lookup past the cache computes pi to at least
+// n digits; lookups at or below that are then read straight from the cache
+export function digitAt(n: number, radix = 10): number {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new RangeError(`Invalid pi digit position: ${n}`)
+  }
   if (n === 0) return 3
-  
-  let s = 0
-  for (let k = 0; k <= n + 3; k++) {
-    const ak = 8 * k + 1
-    const bk = 8 * k + 4
-    const ck = 8 * k + 5
-    const dk = 8 * k + 6
-    
-    const term = (1 / Math.pow(16, k)) * (
-      4 / ak - 2 / bk - 1 / ck - 1 / dk
-    )
-    s += term
+
+  ensurePiDigits(n, radix)
+  return parseInt(cachedDigitsFor(radix)[n - 1], radix)
+}
+
+// `count` digits of pi starting at decimal place `offset` (1-based, as digitAt),
+// e.g. digitsFrom(762, 6) === '999999' (the Feynman point)
+export function digitsFrom(offset: number, count: number, radix = 10): string {
+  if (!Number.isInteger(offset) || offset < 1) {
+    throw new RangeError(`Invalid pi digit position: ${offset}`)
   }
-  
-  const digit = Math.floor((s * 10) % 10)
-  return digit
-}
\ No newline at end of file
+  if (count <= 0) return ''
+
+  ensurePiDigits(offset - 1 + count, radix)
+  return cachedDigitsFor(radix).slice(offset - 1, offset - 1 + count)
+}
@@ -0,0 +1,75 @@
+import { createDigitSource, type DigitSourceConfig } from './digitSources'
+import type { PiWorkerRequest, PiWorkerResponse } from './piWorkerProtocol'
+
+// Digit worker - keeps the expensive BigInt computation off the UI thread
+
+// Requests queued or being computed, and the ones among them cancelled. Both
+// forget an id once its request finishes
+const active = new Set<number>()
+const cancelled = new Set<number>()
+
+// Requests are handled one at a time, in the order they arrive
+let queue = Promise.resolve()
+
+function post(message: PiWorkerResponse) {
+  self.postMessage(message)
+}
+
+// Let pending messages (e.g. cancels) through between computation steps
+function yieldToEventLoop() {
+  return new Promise<void>(resolve => setTimeout(resolve, 0))
+}
+
+async function handleRequest(
+  id: number,
+  config: DigitSourceConfig,
+  radix: number,
+  offset: number,
+  count: number
+) {
+  const source = createDigitSource(config, radix)
+  const target = Math.min(offset - 1 + count, source.length)
+
+  if (source.ensure) {
+    let computed = source.ensure(0)
+
+    while (computed < target) {
+      if (cancelled.delete(id)) {
+        post({ type: 'cancelled', id })
+        return
+      }
+
+      // Each step doubles the precision, reporting progress in between
+      computed = source.ensure(computed + 1)
+      post({ type: 'progress', id, computed: Math.min(computed, target), target })
+      await yieldToEventLoop()
+    }
+  }
+
+  if (cancelled.delete(id)) {
+    post({ type: 'cancelled', id })
+    return
+  }
+
+  post({ type: 'digits', id, offset, digits: source.digitsFrom(offset, count) })
+}
+
+self.addEventListener('message', (event: MessageEvent<PiWorkerRequest>) => {
+  const message = event.data
+
+  if (message.type === 'cancel') {
+    // Cancels for requests that already finished have nothing to stop
+    if (active.has(message.id)) cancelled.add(message.id)
+    return
+  }
+
+  const { id, source, radix, offset, count } = message
+  active.add(id)
+  queue = queue
+    .then(() => handleRequest(id, source, radix, offset, count))
+    .catch(error => post({ type: 'error', id, message: String(error) }))
+    .finally(() => {
+      active.delete(id)
+      cancelled.delete(id)
+    })
+})
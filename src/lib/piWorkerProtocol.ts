@@ -0,0 +1,22 @@
+import type { DigitSourceConfig } from './digitSources'
+
+// Message protocol between the main thread and the digit worker
+
+// Main thread -> worker. Offsets are places after the point (1 = first digit after "3.")
+export type PiWorkerRequest =
+  | {
+      type: 'request'
+      id: number
+      source: DigitSourceConfig
+      radix: number
+      offset: number
+      count: number
+    }
+  | { type: 'cancel'; id: number }
+
+// Worker -> main thread. A finite source may answer with fewer digits than requested
+export type PiWorkerResponse =
+  | { type: 'progress'; id: number; computed: number; target: number }
+  | { type: 'digits'; id: number; offset: number; digits: string }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string }
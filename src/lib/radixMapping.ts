@@ -0,0 +1,141 @@
+// What each digit symbol does when played, per number base
+
+export type DigitRole =
+  | { type: 'kick' } // Also switches to the dark theme
+  | { type: 'hihat' } // Also switches to the light theme
+  | { type: 'degree'; degree: number } // Scale degree from the key root; 7+ climbs into higher octaves
+  | { type: 'chromatic'; semitone: number } // Semitones above the key root
+
+export interface RadixMapping {
+  radix: number
+  label: string
+  // Indexed by digit value
+  roles: DigitRole[]
+}
+
+export const SUPPORTED_RADIXES = [2, 8, 10, 12, 16] as const
+export type SupportedRadix = (typeof SUPPORTED_RADIXES)[number]
+
+// 0 and 1 stay drums, everything above climbs the scale
+function drumsThenDegrees(radix: number): DigitRole[] {
+  return Array.from({ length: radix }, (_, value): DigitRole => {
+    if (value === 0) return { type: 'kick' }
+    if (value === 1) return { type: 'hihat' }
+    return { type: 'degree', degree: value - 2 }
+  })
+}
+
+// Default roles; the ones playing are user settings (see RadixRoles)
+export const RADIX_MAPPINGS: Record<SupportedRadix, RadixMapping> = {
+  2: { radix: 2, label: 'Binary (drums only)', roles: drumsThenDegrees(2) },
+  8: { radix: 8, label: 'Octal', roles: drumsThenDegrees(8) },
+  10: { radix: 10, label: 'Decimal', roles: drumsThenDegrees(10) },
+  // One digit per semitone; drums are assigned in the digit roles panel
+  12: {
+    radix: 12,
+    label: 'Duodecimal (chromatic)',
+    roles: Array.from({ length: 12 }, (_, semitone): DigitRole => ({ type: 'chromatic', semitone })),
+  },
+  // 2-F covers two octaves of scale degrees
+  16: { radix: 16, label: 'Hexadecimal', roles: drumsThenDegrees(16) },
+}
+
+// What each digit does in every base, indexed by digit value
+export type RadixRoles = Record<SupportedRadix, DigitRole[]>
+
+export const DEFAULT_RADIX_ROLES: RadixRoles = Object.fromEntries(
+  SUPPORTED_RADIXES.map(radix => [radix, RADIX_MAPPINGS[radix].roles])
+) as RadixRoles
+
+// Highest scale degree or semitone a digit can be given (four octaves up)
+export const MAX_ROLE_STEP = 47
+
+// Throws if a role can't be played
+export function validateDigitRole(role: DigitRole) {
+  switch (role.type) {
+    case 'kick':
+    case 'hihat':
+      return
+    case 'degree':
+      if (!Number.isInteger(role.degree) || role.degree < 0 || role.degree > MAX_ROLE_STEP) {
+        throw new Error(`Scale degree must be a whole number from 0 to ${MAX_ROLE_STEP}: ${role.degree}`)
+      }
+      return
+    case 'chromatic':
+      if (!Number.isInteger(role.semitone) || role.semitone < 0 || role.semitone > MAX_ROLE_STEP) {
+        throw new Error(`Semitone must be a whole number from 0 to ${MAX_ROLE_STEP}: ${role.semitone}`)
+      }
+      return
+    default:
+      throw new Error(`Unknown digit role: ${(role as { type: string }).type}`)
+  }
+}
+
+// Throws if any base is missing roles or has one that can't be played
+export function validateRadixRoles(roles: RadixRoles) {
+  for (const radix of SUPPORTED_RADIXES) {
+    if (roles[radix]?.length !== radix) throw new Error(`Base ${radix} needs a role for each of its ${radix} digits`)
+    roles[radix].forEach(validateDigitRole)
+  }
+}
+
+const STORAGE_KEY = 'pi-radix-roles'
+
+// Bases with unreadable stored roles fall back to their defaults
+export function loadRadixRoles(): RadixRoles {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return DEFAULT_RADIX_ROLES
+    const parsed = JSON.parse(stored) as Partial<RadixRoles>
+    return Object.fromEntries(SUPPORTED_RADIXES.map(radix => {
+      const roles = parsed[radix]
+      try {
+        validateRadixRoles({ ...DEFAULT_RADIX_ROLES, [radix]: roles })
+        return [radix, roles]
+      } catch {
+        return [radix, DEFAULT_RADIX_ROLES[radix]]
+      }
+    })) as RadixRoles
+  } catch (error) {
+    console.warn('Ignoring unreadable digit roles:', error)
+  }
+  return DEFAULT_RADIX_ROLES
+}
+
+export function saveRadixRoles(roles: RadixRoles) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(roles))
+}
+
+// Symbols used to display each digit value of a radix
+export function radixSymbols(radix: number): string[] {
+  return Array.from({ length: radix }, (_, value) => value.toString(radix).toUpperCase())
+}
+
+// Role of a single digit symbol, or null if it isn't a digit of this radix
+export function digitRole(symbol: string, radix: number, roles: RadixRoles = DEFAULT_RADIX_ROLES): DigitRole | null {
+  const radixRoles = roles[radix as SupportedRadix]
+  if (!radixRoles || symbol.length !== 1) return null
+
+  const value = parseInt(symbol, radix)
+  return Number.isNaN(value) ? null : radixRoles[value] ?? null
+}
+
+// Whether a digit plays a pitch (melody) rather than a drum
+export function isPitchedDigit(symbol: string, radix: number, roles: RadixRoles = DEFAULT_RADIX_ROLES): boolean {
+  const role = digitRole(symbol, radix, roles)
+  return role?.type === 'degree' || role?.type === 'chromatic'
+}
+
+// Short human-readable description for the settings panel
+export function describeRole(role: DigitRole): string {
+  switch (role.type) {
+    case 'kick':
+      return 'Kick Drum'
+    case 'hihat':
+      return 'Hi-Hat'
+    case 'degree':
+      return `Scale degree ${role.degree + 1}`
+    case 'chromatic':
+      return `+${role.semitone} semitones`
+  }
+}
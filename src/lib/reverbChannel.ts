@@ -0,0 +1,264 @@
+import { getContext } from 'tone'
+import defaults from '../config/defaults.json'
+import type { ImpulseSource } from './impulses'
+import { createSeededRandom } from './random'
+
+// A convolution reverb: pre-delay -> early reflections + late tail -> damping ->
+// mid/side width -> wet level. Its output is the wet signal only. The engine makes
+// one per theme, but any number can be created
+
+export interface ReverbSettings {
+  decay: number // Seconds for the tail to fall 60dB
+  roomSize: number // 0.5-10: how spread out the early reflections are, and how slowly the tail builds
+  wet: number // 0-100%
+  preDelay: number // ms
+  damping: number // Lowpass cutoff in Hz
+  earlyLate: number // Early reflections' share of the mix, 0-100%
+  width: number // 0% mono, 100% as generated, 200% double the side signal
+  impulse: ImpulseSource // Recorded impulses ignore decay, room size and seed
+  seed: number // Noise for the generated impulse, so it sounds the same every time
+}
+
+// Defaults come from src/config/defaults.json (audio.reverb). Dark is long and
+// dramatic, light shorter and brighter
+export const DEFAULT_REVERBS: Record<'dark' | 'light', ReverbSettings> = {
+  dark: { ...defaults.audio.reverb.dark, impulse: { kind: 'synthetic' } },
+  light: { ...defaults.audio.reverb.light, impulse: { kind: 'synthetic' } },
+}
+
+const MAX_PRE_DELAY_SECONDS = 0.5
+const CROSSFADE_SECONDS = 0.05
+const RECORDED_EARLY_SECONDS = 0.08 // Where recorded impulses split into early and late
+
+// Early and late impulses for a room. Each channel gets its own noise, which is
+// what makes the reverb wide
+function buildImpulses(context: BaseAudioContext, decay: number, roomSize: number, seed: number) {
+  const { sampleRate } = context
+  const random = createSeededRandom(seed)
+  const earlyWindow = 0.005 + roomSize * 0.008 // 9ms for a booth, 85ms for a hall
+  const taps = 8 + Math.round(roomSize * 3)
+  const early = context.createBuffer(2, Math.ceil(earlyWindow * sampleRate) + 1, sampleRate)
+  // The tail starts halfway through the early reflections and takes the whole window to build
+  const onset = earlyWindow / 2
+  const late = context.createBuffer(2, Math.ceil((onset + Math.max(decay, 0.1)) * sampleRate), sampleRate)
+
+  for (let channel = 0; channel < 2; channel++) {
+    const earlyData = early.getChannelData(channel)
+    for (let tap = 0; tap < taps; tap++) {
+      const t = random() * earlyWindow
+      const sign = random() < 0.5 ? -1 : 1
+      earlyData[Math.floor(t * sampleRate)] += sign * (1 - t / earlyWindow) * (0.5 + random() / 2)
+    }
+
+    const lateData = late.getChannelData(channel)
+    const onsetSamples = Math.floor(onset * sampleRate)
+    for (let i = onsetSamples; i < lateData.length; i++) {
+      const t = (i - onsetSamples) / sampleRate
+      const buildUp = Math.min(1, t / earlyWindow)
+      const envelope = Math.exp((-6.91 * t) / decay) // e^-6.91 = -60dB
+      lateData[i] = (random() * 2 - 1) * envelope * buildUp
+    }
+  }
+  return { early, late }
+}
+
+// A recorded impulse split at a fixed point, the late part keeping its timing
+function splitRecording(context: BaseAudioContext, recording: AudioBuffer) {
+  const { sampleRate, numberOfChannels, length } = recording
+  const splitAt = Math.min(length, Math.ceil(RECORDED_EARLY_SECONDS * sampleRate))
+  const early = context.createBuffer(numberOfChannels, Math.max(splitAt, 1), sampleRate)
+  const late = context.createBuffer(numberOfChannels, length, sampleRate)
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const data = recording.getChannelData(channel)
+    early.copyToChannel(data.subarray(0, splitAt), channel)
+    late.copyToChannel(data.subarray(splitAt), channel, splitAt)
+  }
+  return { early, late }
+}
+
+// One impulse's pair of convolvers. Swapping impulses fades the input over to a
+// new bank and lets the old one ring out, so changes never cut a tail off
+interface ImpulseBank {
+  fade: GainNode
+  early: ConvolverNode
+  late: ConvolverNode
+}
+
+export class ReverbChannel {
+  readonly input: GainNode
+  readonly output: GainNode
+  private readonly context: BaseAudioContext
+  private readonly preDelay: DelayNode
+  private readonly earlyGain: GainNode
+  private readonly lateGain: GainNode
+  private readonly damping: BiquadFilterNode
+  private readonly sideGain: GainNode
+  private readonly width: AudioNode[] // Mid/side matrix, kept for disposal
+  private bank: ImpulseBank
+  private settings: ReverbSettings
+  private recording: AudioBuffer | null = null // Loaded impulse; null uses the generated one
+  private disposed = false
+
+  constructor(settings: ReverbSettings) {
+    this.context = getContext().rawContext as BaseAudioContext
+    const context = this.context
+    this.settings = { ...settings }
+
+    this.input = context.createGain()
+    this.preDelay = context.createDelay(MAX_PRE_DELAY_SECONDS)
+    this.earlyGain = context.createGain()
+    this.lateGain = context.createGain()
+    this.damping = context.createBiquadFilter()
+    this.damping.type = 'lowpass'
+    this.output = context.createGain()
+    this.input.connect(this.preDelay)
+
+    // Mid/side width: mid = (L + R) / 2, side = (L - R) / 2 scaled by the width,
+    // then L = mid + side, R = mid - side
+    const splitter = context.createChannelSplitter(2)
+    const mid = context.createGain()
+    const invertRight = context.createGain()
+    const invertSide = context.createGain()
+    const merger = context.createChannelMerger(2)
+    this.sideGain = context.createGain()
+    for (const mono of [mid, this.sideGain, invertRight, invertSide]) {
+      mono.channelCount = 1
+      mono.channelCountMode = 'explicit'
+    }
+    mid.gain.value = 0.5
+    invertRight.gain.value = -1
+    invertSide.gain.value = -1
+    splitter.connect(mid, 0)
+    splitter.connect(mid, 1)
+    splitter.connect(this.sideGain, 0)
+    splitter.connect(invertRight, 1)
+    invertRight.connect(this.sideGain)
+    mid.connect(merger, 0, 0)
+    mid.connect(merger, 0, 1)
+    this.sideGain.connect(merger, 0, 0)
+    this.sideGain.connect(invertSide)
+    invertSide.connect(merger, 0, 1)
+    this.width = [splitter, mid, invertRight, invertSide, merger]
+
+    this.earlyGain.connect(this.damping)
+    this.lateGain.connect(this.damping)
+    this.damping.connect(splitter)
+    merger.connect(this.output)
+
+    this.bank = this.createBank()
+    this.bank.fade.gain.value = 1
+    this.applyLevels()
+  }
+
+  getSettings(): ReverbSettings {
+    return { ...this.settings }
+  }
+
+  // Only the generated impulse's decay, room size and seed need a new impulse;
+  // everything else is a level or filter change. Recorded impulses arrive
+  // through setRecording once decoded
+  set(changes: Partial<ReverbSettings>) {
+    const previous = this.settings
+    this.settings = { ...previous, ...changes }
+    this.applyLevels()
+    const { decay, roomSize, seed } = this.settings
+    if (!this.recording && (decay !== previous.decay || roomSize !== previous.roomSize || seed !== previous.seed)) {
+      this.swapImpulse(this.tailSeconds(previous.decay))
+    }
+  }
+
+  // Decoded in this channel's context, so the sample rate matches its convolvers
+  decode(data: ArrayBuffer): Promise<AudioBuffer> {
+    return this.context.decodeAudioData(data)
+  }
+
+  // Play a recorded impulse, or null to go back to the generated one
+  setRecording(recording: AudioBuffer | null) {
+    if (this.disposed || recording === this.recording) return
+    const previousTail = this.tailSeconds(this.settings.decay)
+    this.recording = recording
+    this.swapImpulse(previousTail)
+  }
+
+  private tailSeconds(decay: number): number {
+    return this.recording ? this.recording.duration : decay
+  }
+
+  private applyLevels() {
+    const { wet, preDelay, damping, earlyLate, width } = this.settings
+    this.glide(this.output.gain, wet / 100)
+    this.glide(this.preDelay.delayTime, Math.min(preDelay / 1000, MAX_PRE_DELAY_SECONDS))
+    this.glide(this.damping.frequency, Math.max(damping, 20))
+    this.glide(this.earlyGain.gain, earlyLate / 100)
+    this.glide(this.lateGain.gain, 1 - earlyLate / 100)
+    this.glide(this.sideGain.gain, width / 200) // side = (L - R) / 2 at 100%
+  }
+
+  // Smooth changes while playing so sliders don't zipper
+  private glide(param: AudioParam, value: number) {
+    if (this.context.state !== 'running') {
+      param.value = value
+      return
+    }
+    const time = this.context.currentTime
+    param.cancelScheduledValues(time)
+    param.setTargetAtTime(value, time, 0.01)
+  }
+
+  private createBank(): ImpulseBank {
+    const { early: earlyImpulse, late: lateImpulse } = this.recording
+      ? splitRecording(this.context, this.recording)
+      : buildImpulses(this.context, this.settings.decay, this.settings.roomSize, this.settings.seed)
+    const fade = this.context.createGain()
+    fade.gain.value = 0
+    const early = this.context.createConvolver()
+    const late = this.context.createConvolver()
+    early.buffer = earlyImpulse
+    late.buffer = lateImpulse
+    this.preDelay.connect(fade)
+    fade.connect(early)
+    fade.connect(late)
+    early.connect(this.earlyGain)
+    late.connect(this.lateGain)
+    return { fade, early, late }
+  }
+
+  private swapImpulse(previousTail: number) {
+    const old = this.bank
+    this.bank = this.createBank()
+
+    // Before the context runs (e.g. settings copied onto an offline render) there's
+    // nothing to fade
+    if (this.context.state !== 'running') {
+      this.bank.fade.gain.value = 1
+      this.disconnectBank(old)
+      return
+    }
+
+    const time = this.context.currentTime
+    old.fade.gain.setValueAtTime(1, time)
+    old.fade.gain.linearRampToValueAtTime(0, time + CROSSFADE_SECONDS)
+    this.bank.fade.gain.setValueAtTime(0, time)
+    this.bank.fade.gain.linearRampToValueAtTime(1, time + CROSSFADE_SECONDS)
+    // Keep the old convolvers until their tail has died away
+    setTimeout(() => this.disconnectBank(old), (CROSSFADE_SECONDS + previousTail + 0.1) * 1000)
+  }
+
+  private disconnectBank(bank: ImpulseBank) {
+    if (this.disposed) return
+    this.preDelay.disconnect(bank.fade)
+    bank.fade.disconnect()
+    bank.early.disconnect()
+    bank.late.disconnect()
+  }
+
+  dispose() {
+    this.disposed = true
+    for (const node of [this.input, this.preDelay, this.earlyGain, this.lateGain, this.damping, this.sideGain, this.output, ...this.width]) {
+      node.disconnect()
+    }
+    this.bank.fade.disconnect()
+    this.bank.early.disconnect()
+    this.bank.late.disconnect()
+  }
+}
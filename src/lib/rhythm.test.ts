@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { digitsPerMinute, gridSwings, stepAccent, stepVelocity, swingOffsetTicks, type StepAccent } from './rhythm'
+
+// Tone's default ticks per quarter note
+const PPQ = 192
+
+describe('swingOffsetTicks', () => {
+  it('delays the offbeat of each swung pair by up to a third of the pair', () => {
+    expect(swingOffsetTicks(96, PPQ, 1, 96)).toBeCloseTo(64, 6)
+    expect(swingOffsetTicks(96, PPQ, 0.5, 96)).toBeCloseTo(32, 6)
+    expect(swingOffsetTicks(48, PPQ, 1, 48)).toBeCloseTo(32, 6)
+  })
+
+  it('leaves beats, pair starts and straight time alone', () => {
+    expect(swingOffsetTicks(0, PPQ, 1, 96)).toBe(0)
+    expect(swingOffsetTicks(192, PPQ, 1, 96)).toBe(0)
+    expect(swingOffsetTicks(96, PPQ, 1, 48)).toBe(0)
+    expect(swingOffsetTicks(96, PPQ, 0, 96)).toBe(0)
+  })
+
+  it('never swings quarter-note grids', () => {
+    expect(gridSwings('4n')).toBe(false)
+    expect(gridSwings('8n')).toBe(true)
+    expect(gridSwings('16n')).toBe(true)
+  })
+})
+
+describe('stepAccent', () => {
+  it('finds downbeats, beats and offbeats in 4/4', () => {
+    expect([0, 96, 192, 576, 768].map(ticks => stepAccent(ticks, PPQ, [4, 4]))).toEqual([
+      'downbeat',
+      'offbeat',
+      'beat',
+      'beat',
+      'downbeat',
+    ])
+  })
+
+  it('counts eighth-note beats in 6/8', () => {
+    expect([48, 96, 480, 576].map(ticks => stepAccent(ticks, PPQ, [6, 8]))).toEqual([
+      'offbeat',
+      'beat',
+      'beat',
+      'downbeat',
+    ])
+  })
+})
+
+describe('stepVelocity', () => {
+  it('plays everything at full velocity unless accenting downbeats', () => {
+    expect(stepVelocity('offbeat', false)).toBe(1)
+    const accents: StepAccent[] = ['downbeat', 'beat', 'offbeat']
+    expect(accents.map(accent => stepVelocity(accent, true))).toEqual([1, 0.75, 0.55])
+  })
+})
+
+describe('digitsPerMinute', () => {
+  it('plays one digit per grid step', () => {
+    expect(digitsPerMinute(120, '4n')).toBe(120)
+    expect(digitsPerMinute(120, '8t')).toBeCloseTo(360, 6)
+    expect(digitsPerMinute(120, '16n')).toBe(480)
+  })
+})
@@ -0,0 +1,87 @@
+// Rhythm layer for the digit sequencer: grid, swing, time signature and accents
+
+// Note value each digit occupies on the grid
+export type DigitGrid = '4n' | '8n' | '8t' | '16n'
+
+export interface RhythmSettings {
+  grid: DigitGrid
+  swing: number // 0-1, delays every other grid step
+  timeSignature: [number, number] // [beats per bar, beat unit]
+  accentDownbeats: boolean
+  tieRepeats: boolean // Repeating digits tie into one longer note
+}
+
+export const DEFAULT_RHYTHM: RhythmSettings = {
+  grid: '4n',
+  swing: 0,
+  timeSignature: [4, 4],
+  accentDownbeats: false,
+  tieRepeats: false,
+}
+
+export const GRID_OPTIONS: { value: DigitGrid; label: string; quarterNotes: number }[] = [
+  { value: '4n', label: 'Quarter notes', quarterNotes: 1 },
+  { value: '8n', label: 'Eighth notes', quarterNotes: 1 / 2 },
+  { value: '8t', label: 'Eighth-note triplets', quarterNotes: 1 / 3 },
+  { value: '16n', label: 'Sixteenth notes', quarterNotes: 1 / 4 },
+]
+
+export const TIME_SIGNATURES: [number, number][] = [
+  [4, 4],
+  [3, 4],
+  [5, 4],
+  [6, 8],
+  [7, 8],
+]
+
+// Longest run of repeated digits tied into one note
+export const MAX_TIED_STEPS = 8
+
+// Digits played per minute at a given tempo
+export function digitsPerMinute(tempo: number, grid: DigitGrid): number {
+  const option = GRID_OPTIONS.find(o => o.value === grid) ?? GRID_OPTIONS[0]
+  return tempo / option.quarterNotes
+}
+
+export type StepAccent = 'downbeat' | 'beat' | 'offbeat'
+
+// Where a step lands in the bar, from its Transport tick position
+export function stepAccent(ticks: number, ppq: number, timeSignature: [number, number]): StepAccent {
+  const [beatsPerBar, beatUnit] = timeSignature
+  const ticksPerBeat = (ppq * 4) / beatUnit
+  const position = Math.round(ticks) % (ticksPerBeat * beatsPerBar)
+
+  if (position === 0) return 'downbeat'
+  if (position % ticksPerBeat === 0) return 'beat'
+  return 'offbeat'
+}
+
+// Note velocity for a step; everything plays at full velocity without accents
+export function stepVelocity(accent: StepAccent, accentDownbeats: boolean): number {
+  if (!accentDownbeats) return 1
+
+  switch (accent) {
+    case 'downbeat':
+      return 1
+    case 'beat':
+      return 0.75
+    case 'offbeat':
+      return 0.55
+  }
+}
+
+// Whether digits on a grid can swing. Swing delays every other grid step, but Tone
+// never moves a step that lands on a beat, so quarter notes always play straight
+export function gridSwings(grid: DigitGrid): boolean {
+  return grid !== '4n'
+}
+
+// Swing delay in ticks for a grid step, the same curve Tone's Transport applies
+// live (used where there's no Transport, e.g. MIDI export)
+export function swingOffsetTicks(ticks: number, ppq: number, swing: number, swingTicks: number): number {
+  const pairTicks = swingTicks * 2
+  if (swing <= 0 || ticks % ppq === 0 || ticks % pairTicks === 0) return 0
+
+  const progress = (ticks % pairTicks) / pairTicks
+  return (pairTicks / 3) * Math.sin(progress * Math.PI) * swing
+}
@@ -0,0 +1,73 @@
+import { Note } from 'tonal'
+
+// Sample sources for sampler instruments: bundled packs described by
+// public/samples/packs.json, or WAV/OGG files the user drops in
+
+export interface SamplePack {
+  id: string
+  name: string
+  baseUrl: string // Folder the files are served from, e.g. "/samples/piano/"
+  samples: Record<string, string> // Note the recording is of -> file name
+}
+
+export interface SampleFile {
+  name: string // File name, also its key in the sample cache
+  note: string // Pitch the recording is of
+}
+
+export type SampleSource = { kind: 'pack'; packId: string } | { kind: 'files'; files: SampleFile[] }
+
+const PACKS_URL = '/samples/packs.json'
+
+// The service worker precaches the bundled packs and caches other packs as they're
+// fetched (see vite.config.ts), so they work offline
+export async function loadSamplePacks(): Promise<SamplePack[]> {
+  const response = await fetch(PACKS_URL)
+  if (!response.ok) throw new Error(`Couldn't load ${PACKS_URL}: ${response.status}`)
+  const { packs } = (await response.json()) as { packs: SamplePack[] }
+  return packs
+}
+
+// Dropped files live in Cache Storage, so they survive reloads without a server
+const USER_SAMPLE_CACHE = 'pi-user-samples'
+
+function userSampleKey(name: string): string {
+  return `/user-samples/${encodeURIComponent(name)}`
+}
+
+export async function storeSampleFile(file: File): Promise<SampleFile> {
+  const cache = await caches.open(USER_SAMPLE_CACHE)
+  await cache.put(userSampleKey(file.name), new Response(file, { headers: { 'Content-Type': file.type } }))
+  return { name: file.name, note: noteFromFileName(file.name) }
+}
+
+export async function removeSampleFile(name: string) {
+  const cache = await caches.open(USER_SAMPLE_CACHE)
+  await cache.delete(userSampleKey(name))
+}
+
+// Reads the pitch from names like "Piano_F#3.wav" or "c4-soft.ogg"; C4 otherwise
+export function noteFromFileName(name: string): string {
+  const match = name.match(/(?:^|[^A-Za-z])([A-Ga-g][#b]?-?\d)(?![0-9])/)
+  const note = match ? match[1][0].toUpperCase() + match[1].slice(1) : null
+  return note && Note.midi(note) !== null ? note : 'C4'
+}
+
+// Note -> URL map for a Tone Sampler. Pack files are fetched from the server (and
+// the service worker's cache); dropped files become blob URLs
+export async function resolveSampleUrls(source: SampleSource): Promise<Record<string, string>> {
+  if (source.kind === 'pack') {
+    const pack = (await loadSamplePacks()).find(candidate => candidate.id === source.packId)
+    if (!pack) throw new Error(`No sample pack "${source.packId}"`)
+    return Object.fromEntries(Object.entries(pack.samples).map(([note, file]) => [note, `${pack.baseUrl}${file}`]))
+  }
+
+  const cache = await caches.open(USER_SAMPLE_CACHE)
+  const urls: Record<string, string> = {}
+  for (const file of source.files) {
+    const response = await cache.match(userSampleKey(file.name))
+    if (!response) throw new Error(`Sample ${file.name} is no longer stored - drop it in again`)
+    urls[file.note] = URL.createObjectURL(await response.blob())
+  }
+  return urls
+}
@@ -0,0 +1,142 @@
+import { TimeClass, getContext } from 'tone'
+import { DEFAULT_RHYTHM, MAX_TIED_STEPS, stepAccent, stepVelocity, type DigitGrid, type RhythmSettings } from './rhythm'
+
+interface DigitSequencerOptions {
+  // Digit at an index of the display string, undefined if not fetched yet
+  getDigit: (index: number) => string | undefined
+  // True once no more digits will ever arrive (end of a finite source)
+  isExhausted: () => boolean
+  // Whether a digit holds a pitch that can be tied over repeats (melody, not drums)
+  isTieable: (digit: string) => boolean
+  // Schedule the sound for a digit at an exact audio-clock time
+  playDigit: (digit: string, time: number, options: { duration?: number; velocity: number }) => void
+  // Sees every digit as it comes due, tied repeats included, before it plays
+  onDigit?: (digit: string, index: number, time: number) => void
+  // Visual updates, called on the animation frame closest to the audio.
+  // Left out for offline renders, where there's nothing to draw
+  onStep?: (index: number) => void
+  onEnd?: () => void
+}
+
+// Plays the digit stream on Tone's Transport. Steps are scheduled ahead on the
+// audio clock (Tone's lookahead), so timing doesn't depend on React or timers,
+// and the UI follows via Tone.Draw
+export class DigitSequencer {
+  // Bound to the context it was created in, so it also drives Tone.Offline renders
+  // (Offline switches the global context back before rendering)
+  private readonly context = getContext()
+  private eventId: number | null = null
+  private index = 0
+  private rhythm: RhythmSettings = DEFAULT_RHYTHM
+  private stepTicks = 0 // Transport tick of the next grid step, before swing
+  private tiedSteps = 0 // Steps still covered by the last tied note
+
+  constructor(private readonly options: DigitSequencerOptions) {}
+
+  // Start playing the digit after `fromIndex`, one digit per grid step
+  start(fromIndex: number) {
+    this.stop()
+
+    const transport = this.context.transport
+    this.index = fromIndex
+    this.tiedSteps = 0
+    this.schedule(0)
+    transport.start()
+  }
+
+  stop() {
+    if (this.eventId === null) return
+
+    const transport = this.context.transport
+    transport.clear(this.eventId)
+    transport.stop()
+    this.eventId = null
+  }
+
+  // Tempo changes apply from the next beat without restarting playback
+  setTempo(tempo: number) {
+    this.context.transport.bpm.value = tempo
+  }
+
+  // Grid changes take effect on the next step of the new grid
+  setRhythm(rhythm: RhythmSettings) {
+    const transport = this.context.transport
+    transport.swing = rhythm.swing
+    transport.swingSubdivision = rhythm.grid
+    transport.timeSignature = rhythm.timeSignature
+
+    const gridChanged = rhythm.grid !== this.rhythm.grid
+    this.rhythm = rhythm
+
+    if (gridChanged && this.eventId !== null) {
+      transport.clear(this.eventId)
+      const gridTicks = this.gridTime(rhythm.grid).toTicks()
+      this.schedule(Math.ceil(transport.ticks / gridTicks) * gridTicks)
+    }
+  }
+
+  dispose() {
+    this.stop()
+  }
+
+  private gridTime(grid: DigitGrid) {
+    return new TimeClass(this.context, grid)
+  }
+
+  private schedule(startTicks: number) {
+    this.stepTicks = startTicks
+    this.eventId = this.context.transport.scheduleRepeat(
+      (time) => this.step(time),
+      this.rhythm.grid,
+      `${startTicks}i`
+    )
+  }
+
+  private step(time: number) {
+    const nextIndex = this.index + 1
+    const digit = this.options.getDigit(nextIndex)
+    const ticks = this.stepTicks
+    this.stepTicks += this.gridTime(this.rhythm.grid).toTicks()
+
+    if (digit === undefined) {
+      if (this.options.isExhausted()) {
+        this.stop()
+        const { onEnd } = this.options
+        if (onEnd) this.context.draw.schedule(onEnd, time)
+      }
+      // Otherwise the buffer is still filling - hold this step and retry on the next
+      return
+    }
+
+    this.index = nextIndex
+    this.options.onDigit?.(digit, nextIndex, time)
+    const { onStep } = this.options
+    if (onStep) this.context.draw.schedule(() => onStep(nextIndex), time)
+
+    // Repeats already sounding as part of a tied note
+    if (this.tiedSteps > 0) {
+      this.tiedSteps--
+      return
+    }
+
+    const accent = stepAccent(ticks, this.context.transport.PPQ, this.rhythm.timeSignature)
+    const velocity = stepVelocity(accent, this.rhythm.accentDownbeats)
+
+    if (!this.rhythm.tieRepeats) {
+      this.options.playDigit(digit, time, { velocity })
+      return
+    }
+
+    // Digit-derived duration: each repeat that follows extends the note by a step
+    let steps = 1
+    if (this.options.isTieable(digit)) {
+      while (steps < MAX_TIED_STEPS && this.options.getDigit(nextIndex + steps) === digit) {
+        steps++
+      }
+    }
+    this.tiedSteps = steps - 1
+
+    const duration = this.gridTime(this.rhythm.grid).toSeconds() * steps
+    this.options.playDigit(digit, time, { duration, velocity })
+  }
+}
@@ -0,0 +1,14 @@
+// Envelopes of the dark and light melody synths
+
+export interface SynthEnvelope {
+  attack: number
+  decay: number
+  sustain: number
+  release: number
+}
+
+// What the engine creates the synths with, and the controls start from
+export const DEFAULT_SYNTH_ENVELOPES: Record<'dark' | 'light', SynthEnvelope> = {
+  dark: { attack: 0.01, decay: 0.2, sustain: 0.3, release: 0.6 },
+  light: { attack: 0.08, decay: 0.4, sustain: 0.7, release: 1.0 },
+}
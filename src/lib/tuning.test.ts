@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { Tuning, equalDivision, justScale, parseKbm, parseScl } from './tuning'
+
+const MIDDLE_C = 440 * 2 ** (-9 / 12)
+
+describe('parseScl', () => {
+  it('reads ratios and cents, skipping comments', () => {
+    const scale = parseScl(['! meantone.scl', '!', ' Quarter-comma meantone fifths ', ' 3', '!', '5/4', '696.578 fifth', '2'].join('\n'))
+
+    expect(scale.description).toBe('Quarter-comma meantone fifths')
+    expect(scale.cents).toHaveLength(3)
+    expect(scale.cents[0]).toBeCloseTo(386.3137, 4)
+    expect(scale.cents[1]).toBe(696.578)
+    expect(scale.cents[2]).toBe(1200)
+  })
+
+  it('rejects a bad count, missing pitches and a period at or below 1/1', () => {
+    expect(() => parseScl('Bad\nmany\n2/1')).toThrow('Invalid note count')
+    expect(() => parseScl('Short\n2\n3/2')).toThrow('Expected 2 pitches, found 1')
+    expect(() => parseScl('Flat\n1\n0.0')).toThrow('must be above 1/1')
+    expect(() => parseScl('Junk\n1\nfive')).toThrow('Invalid pitch: five')
+  })
+})
+
+// C major on the white keys, A4 at 440 Hz, black keys silent
+const WHITE_KEYS_KBM = [
+  '! white keys', '12', '0', '127', '60', '69', '440.0', '7',
+  '0', 'x', '1', 'x', '2', '3', 'x', '4', 'x', '5', 'x', '6',
+].join('\n')
+
+describe('parseKbm', () => {
+  it('reads the header and leaves x entries unmapped', () => {
+    expect(parseKbm(WHITE_KEYS_KBM)).toEqual({
+      size: 12,
+      firstNote: 0,
+      lastNote: 127,
+      middleNote: 60,
+      referenceNote: 69,
+      referenceFrequency: 440,
+      formalOctave: 7,
+      mapping: [0, null, 1, null, 2, 3, null, 4, null, 5, null, 6],
+    })
+  })
+
+  it('leaves keys past the last line unmapped', () => {
+    expect(parseKbm('2\n0\n127\n60\n69\n440\n1\n0').mapping).toEqual([0, null])
+  })
+
+  it('rejects short headers and bad entries', () => {
+    expect(() => parseKbm('12\n0\n127')).toThrow('missing header lines')
+    expect(() => parseKbm('1\n0\n127\n60\n69\n0\n1\n0')).toThrow('Invalid reference frequency')
+    expect(() => parseKbm('1\n0\n127\n60\n69\n440\n1\ny')).toThrow('Invalid mapping entry: y')
+  })
+})
+
+describe('Tuning.stepFrequency', () => {
+  it('counts equal steps up from the root at its 12-TET pitch', () => {
+    const tuning = new Tuning(equalDivision(19))
+    expect(tuning.stepFrequency(0, 69)).toBeCloseTo(440, 6)
+    expect(tuning.stepFrequency(19, 69)).toBeCloseTo(880, 6)
+    expect(tuning.stepFrequency(-19, 69)).toBeCloseTo(220, 6)
+  })
+
+  it('plays just ratios, wrapping into the periods below', () => {
+    const tuning = new Tuning(justScale('major5'))
+    expect(tuning.stepFrequency(2, 60)).toBeCloseTo(MIDDLE_C * 5 / 4, 6)
+    expect(tuning.stepFrequency(-1, 60)).toBeCloseTo(MIDDLE_C * 15 / 16, 6)
+  })
+
+  it('follows a keyboard mapping from its reference note', () => {
+    const tuning = new Tuning(justScale('major5'), parseKbm(WHITE_KEYS_KBM))
+
+    // A is 5/3 above C, so C sits at 440 * 3/5
+    expect(tuning.stepsPerPeriod).toBe(12)
+    expect(tuning.stepFrequency(9, 60)).toBeCloseTo(440, 6)
+    expect(tuning.stepFrequency(0, 60)).toBeCloseTo(264, 6)
+    expect(tuning.stepFrequency(4, 60)).toBeCloseTo(330, 6)
+    expect(tuning.stepFrequency(12, 60)).toBeCloseTo(528, 6)
+    expect(tuning.stepFrequency(1, 60)).toBeNull()
+  })
+})
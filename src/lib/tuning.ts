@@ -0,0 +1,234 @@
+// Alternate tunings for the melody synths. Digits are mapped onto the tuning's steps
+// directly: a tuning with 12 steps per period retunes the mode's notes, any other
+// size replaces the mode, so scale degree n plays step n (see
+// MusicTheoryEngine.tunePitches). A keyboard mapping, where loaded, decides which
+// scale degree each step plays
+
+// A Scala .scl scale: degrees above 1/1 in cents, the last one being the period
+// (usually the octave, 1200)
+export interface ScalaScale {
+  description: string
+  cents: number[]
+}
+
+// A Scala .kbm keyboard mapping: which scale degree each MIDI note plays
+export interface KeyboardMapping {
+  size: number // Keys in one repeat of the mapping; 0 maps keys to degrees one to one
+  firstNote: number
+  lastNote: number
+  middleNote: number // Key playing degree 0
+  referenceNote: number // Key tuned to referenceFrequency
+  referenceFrequency: number
+  formalOctave: number // Degrees the mapping moves up per repeat
+  mapping: (number | null)[] // Degree per key of the repeat; null leaves it silent
+}
+
+export type TuningKind = 'equal' | 'edo' | 'just' | 'scala'
+
+export type JustPreset = 'major5' | 'chromatic5' | 'chromatic7' | 'pythagorean'
+
+export interface TuningSettings {
+  kind: TuningKind // 'equal' is standard 12-TET
+  edo: number // Steps per octave for 'edo'
+  just: JustPreset
+  scala: { name: string; scale: ScalaScale; mapping: KeyboardMapping | null } | null
+}
+
+export const DEFAULT_TUNING: TuningSettings = {
+  kind: 'equal',
+  edo: 19,
+  just: 'chromatic5',
+  scala: null,
+}
+
+export const TUNING_KIND_LABELS: Record<TuningKind, string> = {
+  equal: '12-TET (standard)',
+  edo: 'Equal division (n-EDO)',
+  just: 'Just intonation',
+  scala: 'Scala file (.scl/.kbm)',
+}
+
+const JUST_RATIOS: Record<JustPreset, { label: string; ratios: string[] }> = {
+  major5: { label: '5-limit major (7 notes)', ratios: ['9/8', '5/4', '4/3', '3/2', '5/3', '15/8', '2/1'] },
+  chromatic5: {
+    label: '5-limit chromatic',
+    ratios: ['16/15', '9/8', '6/5', '5/4', '4/3', '45/32', '3/2', '8/5', '5/3', '9/5', '15/8', '2/1'],
+  },
+  chromatic7: {
+    label: '7-limit chromatic',
+    ratios: ['15/14', '8/7', '6/5', '5/4', '4/3', '7/5', '3/2', '8/5', '5/3', '7/4', '15/8', '2/1'],
+  },
+  pythagorean: {
+    label: 'Pythagorean',
+    ratios: ['256/243', '9/8', '32/27', '81/64', '4/3', '729/512', '3/2', '128/81', '27/16', '16/9', '243/128', '2/1'],
+  },
+}
+
+export const JUST_PRESET_LABELS = Object.fromEntries(
+  Object.entries(JUST_RATIOS).map(([preset, { label }]) => [preset, label])
+) as Record<JustPreset, string>
+
+function ratioToCents(numerator: number, denominator: number): number {
+  return 1200 * Math.log2(numerator / denominator)
+}
+
+// One Scala pitch line: cents if it has a decimal point, otherwise a ratio or integer
+function parsePitch(line: string): number {
+  const value = line.trim().split(/\s+/)[0]
+  if (value.includes('.')) {
+    const cents = Number(value)
+    if (Number.isFinite(cents)) return cents
+  } else {
+    const [numerator, denominator = '1'] = value.split('/')
+    const n = Number(numerator)
+    const d = Number(denominator)
+    if (Number.isInteger(n) && Number.isInteger(d) && n > 0 && d > 0) return ratioToCents(n, d)
+  }
+  throw new Error(`Invalid pitch: ${line.trim()}`)
+}
+
+// Non-comment lines of a Scala file
+function scalaLines(text: string): string[] {
+  return text.split(/\r?\n/).filter(line => !line.startsWith('!'))
+}
+
+export function parseScl(text: string): ScalaScale {
+  const [description = '', countLine, ...pitchLines] = scalaLines(text)
+  const count = Number(countLine?.trim())
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid note count: ${countLine ?? '(missing)'}`)
+  }
+
+  const cents = pitchLines.filter(line => line.trim() !== '').slice(0, count).map(parsePitch)
+  if (cents.length !== count) {
+    throw new Error(`Expected ${count} pitches, found ${cents.length}`)
+  }
+  if (cents[count - 1] <= 0) {
+    throw new Error('The last pitch (the period) must be above 1/1')
+  }
+  return { description: description.trim(), cents }
+}
+
+export function parseKbm(text: string): KeyboardMapping {
+  const lines = scalaLines(text).map(line => line.trim()).filter(line => line !== '')
+  const header = lines.slice(0, 7).map(line => line.split(/\s+/)[0])
+  if (header.length < 7) throw new Error('Keyboard mapping is missing header lines')
+
+  const [size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, formalOctave] = header.map(Number)
+  if ([size, firstNote, lastNote, middleNote, referenceNote, formalOctave].some(value => !Number.isInteger(value))) {
+    throw new Error('Keyboard mapping header values must be whole numbers')
+  }
+  if (!(referenceFrequency > 0)) throw new Error(`Invalid reference frequency: ${header[5]}`)
+
+  // Keys without a line are unmapped, as are those marked "x"
+  const mapping = Array.from({ length: size }, (_, key) => {
+    const entry = lines[7 + key]?.split(/\s+/)[0]
+    if (entry === undefined || entry === 'x') return null
+    const degree = Number(entry)
+    if (!Number.isInteger(degree)) throw new Error(`Invalid mapping entry: ${entry}`)
+    return degree
+  })
+
+  return { size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, formalOctave, mapping }
+}
+
+export function equalDivision(steps: number): ScalaScale {
+  return {
+    description: `${steps} equal divisions of the octave`,
+    cents: Array.from({ length: steps }, (_, step) => ((step + 1) * 1200) / steps),
+  }
+}
+
+export function justScale(preset: JustPreset): ScalaScale {
+  const { label, ratios } = JUST_RATIOS[preset]
+  return { description: label, cents: ratios.map(parsePitch) }
+}
+
+// Maps steps to frequencies in a scale, with or without a keyboard mapping
+export class Tuning {
+  constructor(
+    private readonly scale: ScalaScale,
+    private readonly mapping: KeyboardMapping | null = null
+  ) {}
+
+  get description() {
+    return this.scale.description
+  }
+
+  // Cents of any degree, counting periods above and below
+  private degreeCents(degree: number): number {
+    const size = this.scale.cents.length
+    const period = this.scale.cents[size - 1]
+    const step = ((degree % size) + size) % size
+    return Math.floor(degree / size) * period + (step === 0 ? 0 : this.scale.cents[step - 1])
+  }
+
+  // Scale degree a key plays under the keyboard mapping, null if unmapped
+  private keyDegree(key: number, mapping: KeyboardMapping): number | null {
+    if (key < mapping.firstNote || key > mapping.lastNote) return null
+    const offset = key - mapping.middleNote
+    if (mapping.size === 0) return offset
+
+    const repeat = Math.floor(offset / mapping.size)
+    const degree = mapping.mapping[offset - repeat * mapping.size]
+    return degree === null ? null : degree + repeat * mapping.formalOctave
+  }
+
+  // Steps in one period: the keys in one repeat of a keyboard mapping, otherwise
+  // the scale's own size
+  get stepsPerPeriod(): number {
+    return this.mapping && this.mapping.size > 0 ? this.mapping.size : this.scale.cents.length
+  }
+
+  // Frequency of a step above the root, null if the mapping leaves it silent.
+  // Without a keyboard mapping step 0 sits on rootMidi (at its 12-TET pitch) and
+  // step n plays degree n. With one, steps are keys: from rootMidi when the mapping
+  // repeats every 12 keys, so the key still transposes, otherwise from its middle note
+  stepFrequency(step: number, rootMidi: number): number | null {
+    if (this.mapping) {
+      const key = (this.stepsPerPeriod === 12 ? rootMidi : this.mapping.middleNote) + step
+      const degree = this.keyDegree(key, this.mapping)
+      const referenceDegree = this.keyDegree(this.mapping.referenceNote, this.mapping)
+      if (degree === null) return null
+      const cents = this.degreeCents(degree) - (referenceDegree === null ? 0 : this.degreeCents(referenceDegree))
+      return this.mapping.referenceFrequency * 2 ** (cents / 1200)
+    }
+
+    return 440 * 2 ** ((rootMidi - 69) / 12) * 2 ** (this.degreeCents(step) / 1200)
+  }
+}
+
+// The Tuning for some settings, null for standard 12-TET
+export function createTuning(settings: TuningSettings): Tuning | null {
+  switch (settings.kind) {
+    case 'equal':
+      return null
+    case 'edo':
+      if (!Number.isInteger(settings.edo) || settings.edo < 1 || settings.edo > 311) {
+        throw new Error(`Invalid equal division: ${settings.edo}`)
+      }
+      return new Tuning(equalDivision(settings.edo))
+    case 'just':
+      if (!JUST_RATIOS[settings.just]) throw new Error(`Unknown just intonation preset: ${settings.just}`)
+      return new Tuning(justScale(settings.just))
+    case 'scala':
+      if (!settings.scala) throw new Error('No Scala file loaded')
+      return new Tuning(settings.scala.scale, settings.scala.mapping)
+  }
+}
+
+const STORAGE_KEY = 'pi-tuning'
+
+export function loadTuningSettings(): TuningSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) return { ...DEFAULT_TUNING, ...(JSON.parse(stored) as Partial<TuningSettings>) }
+  } catch (error) {
+    console.warn('Ignoring unreadable tuning settings:', error)
+  }
+  return DEFAULT_TUNING
+}
+
+export function saveTuningSettings(settings: TuningSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
@@ -3,4 +3,14 @@ import { twMerge } from 'tailwind-merge'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+// Save a generated file through a temporary object URL
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking straight away can cancel the download before the browser starts it
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,274 @@
+import { radixSymbols } from './radixMapping'
+
+// Audio-reactive scenes drawn on a canvas behind the digit display. The
+// visualizer runs its own animation loop, reading the master output's analyser
+// and the digits pushed to it, so React re-renders never touch it
+
+export type VisualizerScene = 'off' | 'spectrum' | 'waveform' | 'spiral' | 'transitions'
+
+export const VISUALIZER_SCENE_LABELS: Record<VisualizerScene, string> = {
+  off: 'Off',
+  spectrum: 'Spectrum',
+  waveform: 'Waveform',
+  spiral: 'Pi spiral',
+  transitions: 'Digit transitions',
+}
+
+export const VISUALIZER_SCENES = Object.keys(VISUALIZER_SCENE_LABELS) as VisualizerScene[]
+
+const STORAGE_KEY = 'pi-visualizer-scene'
+
+export function loadVisualizerScene(): VisualizerScene {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  return VISUALIZER_SCENES.includes(stored as VisualizerScene) ? (stored as VisualizerScene) : 'spectrum'
+}
+
+export function saveVisualizerScene(scene: VisualizerScene) {
+  localStorage.setItem(STORAGE_KEY, scene)
+}
+
+const MAX_DIGITS = 4000 // Spiral points kept; past that the oldest drop off the centre
+const SPECTRUM_BARS = 64
+const SPECTRUM_MIN_HZ = 30
+const TRANSITION_FADE_MS = 600
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+export class Visualizer {
+  private readonly context: CanvasRenderingContext2D
+  private readonly resizeObserver: ResizeObserver
+  private scene: VisualizerScene = 'off'
+  private radix = 10
+  private frame = 0
+  private digits: number[] = [] // Digit values in play order
+  private lastIndex = -1
+  private transitions: number[][] = [] // transitions[from][to] counts
+  private lastTransitionAt = 0
+  private frequencies = new Uint8Array(0)
+  private samples = new Float32Array(0)
+
+  // getAnalyser is called every frame, so the visualizer picks up the output
+  // once the audio engine starts
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private readonly getAnalyser: () => AnalyserNode | null
+  ) {
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas 2D is not available')
+    this.context = context
+    this.resizeObserver = new ResizeObserver(() => this.resize())
+    this.resizeObserver.observe(canvas)
+    this.resize()
+    this.resetTransitions()
+  }
+
+  setScene(scene: VisualizerScene) {
+    this.scene = scene
+    cancelAnimationFrame(this.frame)
+    this.clear()
+    if (scene !== 'off') this.frame = requestAnimationFrame(this.draw)
+  }
+
+  setRadix(radix: number) {
+    if (radix === this.radix) return
+    this.radix = radix
+    this.digits = []
+    this.lastIndex = -1
+    this.resetTransitions()
+  }
+
+  // Called as each digit sounds. Jumping elsewhere in the digits (a new start
+  // position, or starting over) clears the history
+  pushDigit(digit: string, index: number) {
+    if (index !== this.lastIndex + 1) {
+      this.digits = []
+      this.resetTransitions()
+    }
+    this.lastIndex = index
+    const value = radixSymbols(this.radix).indexOf(digit.toUpperCase())
+    if (value < 0) return
+
+    const previous = this.digits[this.digits.length - 1]
+    if (previous !== undefined) {
+      this.transitions[previous][value]++
+      this.lastTransitionAt = performance.now()
+    }
+    this.digits.push(value)
+    if (this.digits.length > MAX_DIGITS) this.digits.shift()
+  }
+
+  dispose() {
+    cancelAnimationFrame(this.frame)
+    this.resizeObserver.disconnect()
+  }
+
+  private resetTransitions() {
+    this.transitions = Array.from({ length: this.radix }, () => new Array<number>(this.radix).fill(0))
+  }
+
+  // Match the canvas's pixels to its size on screen
+  private resize() {
+    const ratio = window.devicePixelRatio || 1
+    this.canvas.width = Math.round(this.canvas.clientWidth * ratio)
+    this.canvas.height = Math.round(this.canvas.clientHeight * ratio)
+  }
+
+  private clear() {
+    this.context.clearRect(0, 0, this.canvas.width, this.canvas.height)
+  }
+
+  private draw = (time: number) => {
+    this.frame = requestAnimationFrame(this.draw)
+    const analyser = this.getAnalyser()
+    if (analyser && this.samples.length !== analyser.fftSize) {
+      this.samples = new Float32Array(analyser.fftSize)
+      this.frequencies = new Uint8Array(analyser.frequencyBinCount)
+    }
+    if (analyser) analyser.getFloatTimeDomainData(this.samples)
+
+    this.clear()
+    // Drawn in the theme's text colour, so it flips with the background
+    const context = this.context
+    context.strokeStyle = context.fillStyle = getComputedStyle(this.canvas).color
+    switch (this.scene) {
+      case 'spectrum':
+        if (analyser) this.drawSpectrum(analyser)
+        break
+      case 'waveform':
+        if (analyser) this.drawWaveform()
+        break
+      case 'spiral':
+        this.drawSpiral(time, this.level(analyser))
+        break
+      case 'transitions':
+        this.drawTransitions(time, this.level(analyser))
+        break
+    }
+  }
+
+  // RMS of the latest samples, 0 when there's no audio yet
+  private level(analyser: AnalyserNode | null): number {
+    if (!analyser) return 0
+    let sum = 0
+    for (const sample of this.samples) sum += sample * sample
+    return Math.sqrt(sum / this.samples.length)
+  }
+
+  // Log-spaced bars from 30Hz to Nyquist, rising from the bottom edge
+  private drawSpectrum(analyser: AnalyserNode) {
+    const { width, height } = this.canvas
+    const context = this.context
+    analyser.getByteFrequencyData(this.frequencies)
+    const nyquist = analyser.context.sampleRate / 2
+    const binHz = nyquist / this.frequencies.length
+    const barWidth = width / SPECTRUM_BARS
+    context.globalAlpha = 0.25
+    for (let bar = 0; bar < SPECTRUM_BARS; bar++) {
+      const low = SPECTRUM_MIN_HZ * (nyquist / SPECTRUM_MIN_HZ) ** (bar / SPECTRUM_BARS)
+      const high = SPECTRUM_MIN_HZ * (nyquist / SPECTRUM_MIN_HZ) ** ((bar + 1) / SPECTRUM_BARS)
+      let peak = 0
+      for (let bin = Math.floor(low / binHz); bin <= Math.min(Math.ceil(high / binHz), this.frequencies.length - 1); bin++) {
+        peak = Math.max(peak, this.frequencies[bin])
+      }
+      const barHeight = (peak / 255) * height * 0.8
+      context.fillRect(bar * barWidth + 1, height - barHeight, barWidth - 2, barHeight)
+    }
+    context.globalAlpha = 1
+  }
+
+  private drawWaveform() {
+    const { width, height } = this.canvas
+    const context = this.context
+    context.globalAlpha = 0.35
+    context.lineWidth = 2 * (window.devicePixelRatio || 1)
+    context.beginPath()
+    for (let i = 0; i < this.samples.length; i++) {
+      const x = (i / (this.samples.length - 1)) * width
+      const y = height / 2 - this.samples[i] * height * 0.4
+      if (i === 0) context.moveTo(x, y)
+      else context.lineTo(x, y)
+    }
+    context.stroke()
+    context.globalAlpha = 1
+  }
+
+  // Each digit a dot on a sunflower spiral from the centre out, sized by its
+  // value. The newest, on the outside, swells with the output level
+  private drawSpiral(time: number, level: number) {
+    const { width, height } = this.canvas
+    const context = this.context
+    const spacing = Math.min(width, height) / 2 / Math.sqrt(MAX_DIGITS)
+    const rotation = time / 20000
+    const count = this.digits.length
+    for (let position = 0; position < count; position++) {
+      const newest = position === count - 1
+      const angle = position * GOLDEN_ANGLE + rotation
+      const distance = spacing * Math.sqrt(position)
+      const size = spacing * (0.2 + 0.5 * ((this.digits[position] + 1) / this.radix)) + (newest ? spacing * 4 * level : 0)
+      context.globalAlpha = newest ? 0.8 : 0.15 + 0.35 * (position / count)
+      context.beginPath()
+      context.arc(width / 2 + Math.cos(angle) * distance, height / 2 + Math.sin(angle) * distance, size, 0, Math.PI * 2)
+      context.fill()
+    }
+    context.globalAlpha = 1
+  }
+
+  // The radix's digits round a circle, with a chord for every move from one to
+  // the next, darker the more often it's been made. The latest move flashes
+  private drawTransitions(time: number, level: number) {
+    const { width, height } = this.canvas
+    const context = this.context
+    const ratio = window.devicePixelRatio || 1
+    const radius = Math.min(width, height) * 0.35
+    const centre = { x: width / 2, y: height / 2 }
+    const node = (value: number) => {
+      const angle = (value / this.radix) * Math.PI * 2 - Math.PI / 2
+      return { x: centre.x + Math.cos(angle) * radius, y: centre.y + Math.sin(angle) * radius }
+    }
+
+    const most = Math.max(1, ...this.transitions.flat())
+    context.lineWidth = ratio
+    for (let from = 0; from < this.radix; from++) {
+      for (let to = 0; to < this.radix; to++) {
+        const count = this.transitions[from][to]
+        if (count === 0 || from === to) continue
+        const start = node(from)
+        const end = node(to)
+        context.globalAlpha = 0.05 + 0.3 * (count / most)
+        context.beginPath()
+        context.moveTo(start.x, start.y)
+        context.quadraticCurveTo(centre.x, centre.y, end.x, end.y)
+        context.stroke()
+      }
+    }
+
+    const count = this.digits.length
+    const current = this.digits[count - 1]
+    const previous = this.digits[count - 2]
+    const flash = 1 - Math.min(1, (time - this.lastTransitionAt) / TRANSITION_FADE_MS)
+    if (previous !== undefined && previous !== current && flash > 0) {
+      const start = node(previous)
+      const end = node(current)
+      context.globalAlpha = 0.8 * flash
+      context.lineWidth = 3 * ratio
+      context.beginPath()
+      context.moveTo(start.x, start.y)
+      context.quadraticCurveTo(centre.x, centre.y, end.x, end.y)
+      context.stroke()
+    }
+
+    const symbols = radixSymbols(this.radix)
+    context.font = `${14 * ratio}px monospace`
+    context.textAlign = 'center'
+    context.textBaseline = 'middle'
+    for (let value = 0; value < this.radix; value++) {
+      const { x, y } = node(value)
+      const active = value === current
+      context.globalAlpha = active ? 0.9 : 0.35
+      context.beginPath()
+      context.arc(x, y, (active ? 14 + 40 * level : 10) * ratio, 0, Math.PI * 2)
+      context.stroke()
+      context.fillText(symbols[value], x, y)
+    }
+    context.globalAlpha = 1
+  }
+}
@@ -0,0 +1,156 @@
+import { Note } from 'tonal'
+
+// Voice leading: re-voices each chord (inversion, spacing, octave) to move as
+// little as possible from the one before
+
+// close: every voice within an octave
+// open: every other inner voice raised an octave (C-G-E for a C triad)
+// drop2: second voice from the top dropped an octave
+export type VoicingStyle = 'close' | 'open' | 'drop2'
+
+export interface VoiceLeadingSettings {
+  enabled: boolean // Off plays chords in root position, as built
+  voicing: VoicingStyle
+  lowest: number // MIDI range every voice is kept in
+  highest: number
+}
+
+export const DEFAULT_VOICE_LEADING: VoiceLeadingSettings = {
+  enabled: false,
+  voicing: 'close',
+  lowest: 48, // C3
+  highest: 84, // C6
+}
+
+export const VOICING_LABELS: Record<VoicingStyle, string> = {
+  close: 'Close',
+  open: 'Open',
+  drop2: 'Drop-2',
+}
+
+// Close-position chord on each chord tone as the bass
+function closeInversions(pitches: number[]): number[][] {
+  return pitches.map((_, bass) => {
+    const rotated = [...pitches.slice(bass), ...pitches.slice(0, bass)]
+    const voiced: number[] = []
+    for (const pitch of rotated) {
+      let next = pitch
+      const below = voiced[voiced.length - 1]
+      if (below !== undefined) {
+        while (next <= below) next += 12
+        while (next - 12 > below) next -= 12
+      }
+      voiced.push(next)
+    }
+    return voiced
+  })
+}
+
+function applyStyle(close: number[], style: VoicingStyle): number[] {
+  if (close.length < 3) return close
+
+  switch (style) {
+    case 'close':
+      return close
+    case 'open':
+      return close.map((pitch, voice) => (voice % 2 === 1 ? pitch + 12 : pitch)).sort((a, b) => a - b)
+    case 'drop2': {
+      const dropped = close.length - 2
+      return close.map((pitch, voice) => (voice === dropped ? pitch - 12 : pitch)).sort((a, b) => a - b)
+    }
+  }
+}
+
+// Total semitones the voices move; unequal sizes match each note to its nearest
+function movement(from: number[], to: number[]): number {
+  if (from.length === to.length) {
+    return from.reduce((sum, pitch, voice) => sum + Math.abs(pitch - to[voice]), 0)
+  }
+  return to.reduce((sum, pitch) => sum + Math.min(...from.map(previous => Math.abs(previous - pitch))), 0)
+}
+
+function average(pitches: number[]): number {
+  return pitches.reduce((sum, pitch) => sum + pitch, 0) / pitches.length
+}
+
+// Octave-shift each voice into range, for chords wider than the range allows
+function clampToRange(pitches: number[], lowest: number, highest: number): number[] {
+  return pitches
+    .map((pitch) => {
+      let clamped = pitch
+      while (clamped < lowest) clamped += 12
+      while (clamped > highest && clamped - 12 >= lowest) clamped -= 12
+      return clamped
+    })
+    .sort((a, b) => a - b)
+}
+
+// Name a re-voiced pitch with the spelling the chord builder chose for its pitch class
+function spellLike(spellings: string[], midi: number): string {
+  const pitchClass = spellings.find(name => Note.chroma(name) === midi % 12)
+  if (pitchClass) {
+    const octave = Math.floor(midi / 12) - 1
+    for (const candidate of [octave, octave - 1, octave + 1]) {
+      if (Note.midi(`${pitchClass}${candidate}`) === midi) return `${pitchClass}${candidate}`
+    }
+  }
+  return Note.fromMidiSharps(midi)
+}
+
+export class VoiceLeader {
+  private settings: VoiceLeadingSettings
+  private previous: number[] | null = null
+
+  constructor(settings: VoiceLeadingSettings = DEFAULT_VOICE_LEADING) {
+    this.settings = { ...settings }
+  }
+
+  setSettings(settings: VoiceLeadingSettings) {
+    this.settings = { ...settings }
+    this.previous = null
+  }
+
+  getSettings(): VoiceLeadingSettings {
+    return { ...this.settings }
+  }
+
+  // Forget the last chord, e.g. when playback restarts
+  reset() {
+    this.previous = null
+  }
+
+  // Re-voice a chord (note names, root position) against the previous one.
+  // Single notes pass through untouched
+  voice(notes: string[]): string[] {
+    const { enabled, voicing, lowest, highest } = this.settings
+    if (!enabled || notes.length < 2) return notes
+
+    const pitches = notes.map(note => Note.midi(note)).filter((pitch): pitch is number => pitch !== null)
+    if (pitches.length !== notes.length) return notes
+
+    const spellings = notes.map(note => Note.pitchClass(note))
+    const target = this.previous ? average(this.previous) : average(pitches)
+
+    // Every inversion in the chosen style, at every octave that fits the range
+    let best: number[] | null = null
+    let bestCost = Infinity
+    for (const inversion of closeInversions(pitches)) {
+      const shape = applyStyle(inversion, voicing)
+      for (let shift = -48; shift <= 48; shift += 12) {
+        const candidate = shape.map(pitch => pitch + shift)
+        if (candidate[0] < lowest || candidate[candidate.length - 1] > highest) continue
+
+        // Without a previous chord, stay near the register the chord was built in
+        const cost = this.previous ? movement(this.previous, candidate) : Math.abs(average(candidate) - target)
+        if (cost < bestCost) {
+          best = candidate
+          bestCost = cost
+        }
+      }
+    }
+
+    const voiced = best ?? clampToRange(applyStyle(pitches, voicing), lowest, highest)
+    this.previous = voiced
+    return voiced.map(pitch => spellLike(spellings, pitch))
+  }
+}
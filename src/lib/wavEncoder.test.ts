@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { encodeWav, type WavBitDepth } from './wavEncoder'
+
+// Just the parts of an AudioBuffer the encoder reads, as there's no Web Audio here
+function audioBuffer(channels: number[][], sampleRate = 44100): AudioBuffer {
+  const data = channels.map(samples => Float32Array.from(samples))
+  const buffer: Pick<AudioBuffer, 'numberOfChannels' | 'sampleRate' | 'length' | 'getChannelData'> = {
+    numberOfChannels: data.length,
+    sampleRate,
+    length: data[0].length,
+    getChannelData: channel => data[channel],
+  }
+  return buffer as AudioBuffer
+}
+
+async function encode(buffer: AudioBuffer, bitDepth: WavBitDepth): Promise<DataView> {
+  return new DataView(await encodeWav(buffer, bitDepth).arrayBuffer())
+}
+
+const text = (view: DataView, offset: number) =>
+  String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)))
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM header', async () => {
+    const view = await encode(audioBuffer([[0, 0, 0], [0, 0, 0]]), 16)
+
+    expect(view.byteLength).toBe(44 + 12)
+    expect(text(view, 0)).toBe('RIFF')
+    expect(view.getUint32(4, true)).toBe(36 + 12)
+    expect(text(view, 8)).toBe('WAVE')
+    expect(text(view, 12)).toBe('fmt ')
+    expect(view.getUint32(16, true)).toBe(16)
+    expect(view.getUint16(20, true)).toBe(1)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(44100)
+    expect(view.getUint32(28, true)).toBe(44100 * 4)
+    expect(view.getUint16(32, true)).toBe(4)
+    expect(view.getUint16(34, true)).toBe(16)
+    expect(text(view, 36)).toBe('data')
+    expect(view.getUint32(40, true)).toBe(12)
+  })
+
+  it('interleaves channels and clips samples to full scale', async () => {
+    const view = await encode(audioBuffer([[1, -2], [-0.5, 0]]), 16)
+
+    expect([0, 2, 4, 6].map(offset => view.getInt16(44 + offset, true))).toEqual([32767, -16383, -32767, 0])
+  })
+
+  it('writes 24-bit samples as three little-endian bytes', async () => {
+    const view = await encode(audioBuffer([[1, -1]], 48000), 24)
+
+    expect(view.getUint32(28, true)).toBe(48000 * 3)
+    expect(view.getUint16(32, true)).toBe(3)
+    expect(view.getUint16(34, true)).toBe(24)
+    expect(Array.from(new Uint8Array(view.buffer, 44))).toEqual([0xff, 0xff, 0x7f, 0x01, 0x00, 0x80])
+  })
+})
@@ -0,0 +1,52 @@
+// Encodes rendered audio as a PCM WAV file (RIFF, little-endian, interleaved)
+
+export type WavBitDepth = 16 | 24
+
+const HEADER_BYTES = 44
+
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob {
+  const { numberOfChannels, sampleRate, length } = buffer
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = numberOfChannels * bytesPerSample
+  const dataBytes = length * blockAlign
+
+  const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes))
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i))
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataBytes, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true) // fmt chunk size
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, numberOfChannels, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true) // Byte rate
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+  writeString(36, 'data')
+  view.setUint32(40, dataBytes, true)
+
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => buffer.getChannelData(c))
+  const maxValue = 2 ** (bitDepth - 1) - 1
+  let offset = HEADER_BYTES
+
+  for (let i = 0; i < length; i++) {
+    for (const data of channels) {
+      const sample = Math.round(Math.max(-1, Math.min(1, data[i])) * maxValue)
+
+      if (bitDepth === 16) {
+        view.setInt16(offset, sample, true)
+      } else {
+        // 24-bit: low 16 bits, then the signed top byte
+        view.setUint16(offset, sample & 0xffff, true)
+        view.setInt8(offset + 2, sample >> 16)
+      }
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' })
+}
@@ -0,0 +1,30 @@
+// Web MIDI access shared by MIDI output and input
+
+export interface MidiPortInfo {
+  id: string
+  name: string
+}
+
+let accessPromise: Promise<MIDIAccess> | null = null
+
+export function isWebMidiSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator
+}
+
+// Ask for MIDI access once; the browser shows its permission prompt the first time
+export function requestMidiAccess(): Promise<MIDIAccess> {
+  if (!isWebMidiSupported()) {
+    return Promise.reject(new Error('Web MIDI is not supported in this browser'))
+  }
+
+  accessPromise ??= navigator.requestMIDIAccess().catch((error) => {
+    accessPromise = null // Allow another try after a denied prompt
+    throw error
+  })
+  return accessPromise
+}
+
+// e.g. listMidiPorts(access.outputs.values())
+export function listMidiPorts(ports: Iterable<MIDIPort>): MidiPortInfo[] {
+  return Array.from(ports, (port) => ({ id: port.id, name: port.name ?? port.id }))
+}
@@ -7,7 +7,29 @@ export default defineConfig({
         VitePWA({
             registerType: 'autoUpdate',
             workbox: {
-                globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+                // The bundled packs and impulses are precached so they play offline from the first visit
+                globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}', 'samples/packs.json', 'samples/piano/*.ogg', 'samples/drums/*.wav', 'impulses/impulses.json', 'impulses/*.wav'],
+                maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+                runtimeCaching: [
+                    {
+                        // Other packs are cached the first time they play
+                        urlPattern: /\/samples\/.*\.(?:ogg|wav|mp3)$/,
+                        handler: 'CacheFirst',
+                        options: {
+                            cacheName: 'pi-sample-packs',
+                            expiration: { maxEntries: 500 },
+                        },
+                    },
+                    {
+                        // Other impulse responses too
+                        urlPattern: /\/impulses\/.*\.wav$/,
+                        handler: 'CacheFirst',
+                        options: {
+                            cacheName: 'pi-impulses',
+                            expiration: { maxEntries: 50 },
+                        },
+                    },
+                ],
             },
             includeAssets: ['favicon.ico', 'icon-192.png', 'icon-512.png'],
             manifest: {